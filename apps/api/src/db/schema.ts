@@ -2,7 +2,7 @@
  * Database schema for TabFlow API.
  * Uses Drizzle ORM with PostgreSQL + pgvector for AI embeddings.
  */
-import { pgTable, uuid, text, timestamp, integer, jsonb, real, index, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, integer, bigint, jsonb, index, uniqueIndex, varchar, vector } from 'drizzle-orm/pg-core';
 // Note: userId columns intentionally have no FK to users — they store Cognito subs directly.
 
 // ---- Users ----
@@ -16,18 +16,52 @@ export const users = pgTable('users', {
 });
 
 // ---- Workspaces (cloud-synced) ----
+// Tabs are stored in tab-strip order. windowIndex says which saved window a tab belongs
+// to; groupTitle/groupColor link it to an entry in `groups` for the same window.
+export type WorkspaceTab = {
+    url: string;
+    title: string;
+    faviconUrl?: string;
+    pinned?: boolean;
+    windowIndex?: number;
+    groupTitle?: string;
+    groupColor?: string;
+};
+export type WorkspaceGroup = { title: string; color: string; collapsed: boolean; windowIndex: number };
+
+// Synced tables are soft-deleted: deletedAt marks a tombstone so /api/sync/changes
+// can tell other devices about the delete. updatedAt is bumped on every write.
 export const workspaces = pgTable('workspaces', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
     name: varchar('name', { length: 255 }).notNull(),
-    tabs: jsonb('tabs').notNull().$type<{ url: string; title: string; faviconUrl?: string }[]>(),
+    tabs: jsonb('tabs').notNull().$type<WorkspaceTab[]>(),
+    groups: jsonb('groups').$type<WorkspaceGroup[]>(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at'),
 }, (table) => [
     index('workspaces_user_idx').on(table.userId),
+    index('workspaces_user_updated_idx').on(table.userId, table.updatedAt),
+]);
+
+// ---- Workspace Versions ----
+// The previous name/tabs of a workspace, captured each time an update replaces them.
+// createdAt is when that content was superseded.
+export const workspaceVersions = pgTable('workspace_versions', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    workspaceId: uuid('workspace_id').notNull(),
+    userId: uuid('user_id').notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    tabs: jsonb('tabs').notNull().$type<WorkspaceTab[]>(),
+    groups: jsonb('groups').$type<WorkspaceGroup[]>(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+    index('workspace_versions_workspace_idx').on(table.workspaceId, table.createdAt),
 ]);
 
 // ---- Bookmarks (cloud-synced) ----
+// One row per (user, url): re-adding revives the tombstoned row instead of inserting.
 export const bookmarks = pgTable('bookmarks', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
@@ -35,11 +69,16 @@ export const bookmarks = pgTable('bookmarks', {
     title: varchar('title', { length: 512 }).notNull(),
     faviconUrl: text('favicon_url'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at'),
 }, (table) => [
     index('bookmarks_user_idx').on(table.userId),
+    index('bookmarks_user_updated_idx').on(table.userId, table.updatedAt),
+    uniqueIndex('bookmarks_user_url_idx').on(table.userId, table.url),
 ]);
 
 // ---- Notes (cloud-synced) ----
+// One row per (user, url), like bookmarks — edits update it in place.
 export const notes = pgTable('notes', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
@@ -47,27 +86,41 @@ export const notes = pgTable('notes', {
     content: text('content').notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at'),
 }, (table) => [
     index('notes_user_idx').on(table.userId),
+    index('notes_user_updated_idx').on(table.userId, table.updatedAt),
+    uniqueIndex('notes_user_url_idx').on(table.userId, table.url),
 ]);
 
 // ---- Tab Embeddings (for semantic search) ----
-// The 'embedding' column stores 768-dim vectors from Gemini as real[].
-// Vector operations (cosine similarity) are done via raw SQL.
+// The 'embedding' column is a pgvector vector(768) with an HNSW index for cosine distance;
+// 'embedding_model' records which model produced each one (see services/embeddings).
+// Needs the vector extension — see scripts/migrate-embeddings-vector.ts for existing databases.
+// One row per (user, url); 'content_hash' lets /embed skip pages whose text hasn't changed.
+export const EMBEDDING_DIMENSIONS = 768; // every provider must return vectors of this size
+
 export const tabEmbeddings = pgTable('tab_embeddings', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
     url: text('url').notNull(),
     title: varchar('title', { length: 512 }).notNull(),
     contentSummary: text('content_summary'),
-    embedding: real('embedding').array().notNull(),
+    embedding: vector('embedding', { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+    embeddingModel: varchar('embedding_model', { length: 255 }).default('gemini:gemini-embedding-001').notNull(),
+    contentHash: varchar('content_hash', { length: 64 }),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
     index('embeddings_user_idx').on(table.userId),
+    uniqueIndex('embeddings_user_url_idx').on(table.userId, table.url),
+    index('embeddings_model_idx').on(table.embeddingModel),
+    index('embeddings_vector_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
 ]);
 
 // ---- Tab Analytics ----
+// One row per (user, url), aggregated on every visit. Duration is bigint: a long-lived tab's
+// total can pass int4's ~24 days of milliseconds.
 export const tabAnalytics = pgTable('tab_analytics', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
@@ -75,14 +128,55 @@ export const tabAnalytics = pgTable('tab_analytics', {
     domain: varchar('domain', { length: 255 }).notNull(),
     title: varchar('title', { length: 512 }),
     visitCount: integer('visit_count').default(0).notNull(),
-    totalDurationMs: integer('total_duration_ms').default(0).notNull(),
+    totalDurationMs: bigint('total_duration_ms', { mode: 'number' }).default(0).notNull(),
     lastVisitedAt: timestamp('last_visited_at').defaultNow().notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
     index('analytics_user_idx').on(table.userId),
+    uniqueIndex('analytics_user_url_idx').on(table.userId, table.url),
     index('analytics_domain_idx').on(table.domain),
 ]);
 
+// ---- Tab Analytics buckets (time series) ----
+// Visits and time per (user, domain, hour); bucket_start is the UTC hour the visit began.
+// Day and week views are summed from these in the requested time zone.
+export const tabAnalyticsBuckets = pgTable('tab_analytics_buckets', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull(),
+    domain: varchar('domain', { length: 255 }).notNull(),
+    bucketStart: timestamp('bucket_start').notNull(),
+    visits: integer('visits').default(0).notNull(),
+    durationMs: bigint('duration_ms', { mode: 'number' }).default(0).notNull(),
+}, (table) => [
+    uniqueIndex('analytics_buckets_user_domain_hour_idx').on(table.userId, table.domain, table.bucketStart),
+    index('analytics_buckets_user_start_idx').on(table.userId, table.bucketStart),
+]);
+
+// ---- Analytics visit ids ----
+// Client-generated id of each visit report already counted, so a retry after a lost response
+// adds nothing. Pruned after VISIT_ID_RETENTION (routes/analytics).
+export const analyticsVisitIds = pgTable('analytics_visit_ids', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull(),
+    visitId: uuid('visit_id').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex('analytics_visit_ids_user_visit_idx').on(table.userId, table.visitId),
+    index('analytics_visit_ids_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+// ---- AI Usage (one row per /api/ai/agent call; daily quotas are summed from it) ----
+export const aiUsage = pgTable('ai_usage', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull(),
+    model: varchar('model', { length: 255 }).notNull(),
+    promptTokens: integer('prompt_tokens').default(0).notNull(),
+    completionTokens: integer('completion_tokens').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+    index('ai_usage_user_created_idx').on(table.userId, table.createdAt),
+]);
+
 // ---- User Settings (cloud-synced) ----
 export const userSettings = pgTable('user_settings', {
     id: uuid('id').defaultRandom().primaryKey(),
@@ -3,7 +3,7 @@
  *
  * Express.js backend providing:
  * - Cloud sync for workspaces, bookmarks, notes, and settings
- * - AI semantic search via Gemini embeddings + pgvector
+ * - AI semantic search via Gemini or local embeddings + pgvector
  * - Tab analytics and usage tracking
  * - Tab thumbnail storage via AWS S3
  * - User authentication via AWS Cognito
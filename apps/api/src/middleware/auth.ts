@@ -92,3 +92,15 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
         next();
     }
 }
+
+/**
+ * For routes that spend server resources on a user's behalf (the AI agent on the managed
+ * key): only a verified Cognito user will do. A bare x-device-id is just a client-chosen
+ * string — anyone could mint a fresh one, and a fresh quota, per request.
+ */
+export function requireVerifiedUser(req: Request, res: Response, next: NextFunction) {
+    const sub = (req as any).auth?.sub as string | undefined;
+    if (!USE_COGNITO || !sub) return res.status(401).json({ error: 'sign-in-required' });
+    req.headers['x-user-id'] = sub;
+    next();
+}
@@ -1,35 +1,38 @@
 /**
- * AI routes - Semantic search via Gemini embeddings + pgvector.
+ * AI routes - Semantic search via embeddings (Gemini or a local model) + pgvector.
+ * Nearest neighbours come from the HNSW index on tab_embeddings.embedding (cosine distance).
+ * Requires pgvector >= 0.8 for iterative index scans (see withIterativeScan).
  */
 import { Router, Request, Response } from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { db } from '../db/index.js';
-import { tabEmbeddings } from '../db/schema.js';
-import { sql } from 'drizzle-orm';
+import { tabEmbeddings, aiUsage } from '../db/schema.js';
+import { and, cosineDistance, eq, gte, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
 import { z } from 'zod';
+import { getEmbeddingProvider, embeddingText } from '../services/embeddings.js';
+import { completeAgentChat, getAgentModel, isAgentConfigured } from '../services/agent-llm.js';
+import { buildAgentSystemPrompt } from '../services/agent-prompt.js';
+import { requireVerifiedUser } from '../middleware/auth.js';
 
 export const aiRouter = Router();
 
-// Gemini client (initialized lazily)
-let genAI: GoogleGenerativeAI | null = null;
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
-function getGenAI(): GoogleGenerativeAI {
-    if (!genAI) {
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) throw new Error('GEMINI_API_KEY not set');
-        genAI = new GoogleGenerativeAI(apiKey);
-    }
-    return genAI;
-}
-
-async function generateEmbedding(text: string): Promise<number[]> {
-    const ai = getGenAI();
-    const model = ai.getGenerativeModel({ model: 'gemini-embedding-001' });
-    const result = await model.embedContent(text);
-    return result.embedding.values;
+/**
+ * Run a nearest-neighbour query with HNSW iterative scans. pgvector applies the user/model
+ * filter after the index scan, which only yields hnsw.ef_search (40) candidates, so once the
+ * table holds many users a search could come back short or empty. Iterative scans keep
+ * going until the LIMIT is met; relaxed_order can return rows slightly out of distance
+ * order, so callers re-sort.
+ */
+function withIterativeScan<T>(query: (tx: Tx) => Promise<T>): Promise<T> {
+    return db.transaction(async (tx) => {
+        await tx.execute(sql`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+        return query(tx);
+    });
 }
 
-// POST /api/ai/embed
+// POST /api/ai/embed — one row per (user, url), re-embedded only when its text changes
 const embedSchema = z.object({
     url: z.string(),
     title: z.string().max(512),
@@ -42,16 +45,36 @@ aiRouter.post('/embed', async (req: Request, res: Response) => {
     const parsed = embedSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
     try {
-        const textToEmbed = [parsed.data.title, parsed.data.url, parsed.data.contentSummary].filter(Boolean).join(' | ');
-        const embedding = await generateEmbedding(textToEmbed);
-        const [record] = await db.insert(tabEmbeddings).values({
-            userId,
-            url: parsed.data.url,
+        const provider = getEmbeddingProvider();
+        const text = embeddingText(parsed.data);
+        const contentHash = createHash('sha256').update(text).digest('hex');
+
+        const [existing] = await db.select({ id: tabEmbeddings.id, contentHash: tabEmbeddings.contentHash, embeddingModel: tabEmbeddings.embeddingModel })
+            .from(tabEmbeddings)
+            .where(and(eq(tabEmbeddings.userId, userId), eq(tabEmbeddings.url, parsed.data.url)));
+        if (existing && existing.contentHash === contentHash && existing.embeddingModel === provider.modelId) {
+            // Same page text, same model: keep the vector, just mark it as seen
+            await db.update(tabEmbeddings).set({ updatedAt: new Date() }).where(eq(tabEmbeddings.id, existing.id));
+            return res.json({ id: existing.id, url: parsed.data.url, unchanged: true });
+        }
+
+        const embedding = await provider.embed(text);
+        const values = {
             title: parsed.data.title,
             contentSummary: parsed.data.contentSummary ?? null,
             embedding,
+            embeddingModel: provider.modelId,
+            contentHash,
+        };
+        const [record] = await db.insert(tabEmbeddings).values({
+            userId,
+            url: parsed.data.url,
+            ...values,
+        }).onConflictDoUpdate({
+            target: [tabEmbeddings.userId, tabEmbeddings.url],
+            set: { ...values, updatedAt: new Date() },
         }).returning();
-        res.status(201).json({ id: record.id, url: record.url });
+        res.status(existing ? 200 : 201).json({ id: record.id, url: record.url, unchanged: false });
     } catch (error) {
         console.error('Embedding generation failed:', error);
         res.status(500).json({ error: 'Failed to generate embedding' });
@@ -70,33 +93,22 @@ aiRouter.post('/search', async (req: Request, res: Response) => {
     const parsed = searchSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
     try {
-        const queryEmbedding = await generateEmbedding(parsed.data.query);
-        const results = await db.execute(sql`
-      SELECT
-        id,
-        url,
-        title,
-        content_summary,
-        1 - (
-          (SELECT SUM(a * b) FROM UNNEST(embedding, ${sql.raw(`ARRAY[${queryEmbedding.join(',')}]::real[]`)}) AS t(a, b))
-          / (
-            SQRT((SELECT SUM(a * a) FROM UNNEST(embedding) AS t(a)))
-            * SQRT((SELECT SUM(b * b) FROM UNNEST(${sql.raw(`ARRAY[${queryEmbedding.join(',')}]::real[]`)}) AS t(b)))
-          )
-        ) AS similarity
-      FROM tab_embeddings
-      WHERE user_id = ${userId}
-      ORDER BY similarity DESC
-      LIMIT ${parsed.data.limit}
-    `);
+        const provider = getEmbeddingProvider();
+        const queryEmbedding = await provider.embed(parsed.data.query);
+        const distance = cosineDistance(tabEmbeddings.embedding, queryEmbedding);
+        const results = await withIterativeScan((tx) => tx.select({
+            id: tabEmbeddings.id,
+            url: tabEmbeddings.url,
+            title: tabEmbeddings.title,
+            contentSummary: tabEmbeddings.contentSummary,
+            distance: sql<number>`${distance}`,
+        })
+            .from(tabEmbeddings)
+            .where(and(eq(tabEmbeddings.userId, userId), eq(tabEmbeddings.embeddingModel, provider.modelId)))
+            .orderBy(distance)
+            .limit(parsed.data.limit));
         res.json({
-            results: (results as any[]).map((row: any) => ({
-                id: row.id,
-                url: row.url,
-                title: row.title,
-                contentSummary: row.content_summary,
-                similarity: row.similarity,
-            })),
+            results: results.sort((a, b) => a.distance - b.distance).map(({ distance, ...row }) => ({ ...row, similarity: 1 - distance })),
         });
     } catch (error) {
         console.error('Semantic search failed:', error);
@@ -113,31 +125,21 @@ aiRouter.get('/history', async (req: Request, res: Response) => {
     if (!query || query.length < 1) return res.status(400).json({ error: 'Missing query param ?q=' });
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 30);
     try {
-        const queryEmbedding = await generateEmbedding(query);
-        const results = await db.execute(sql`
-      SELECT
-        url,
-        title,
-        updated_at,
-        1 - (
-          (SELECT SUM(a * b) FROM UNNEST(embedding, ${sql.raw(`ARRAY[${queryEmbedding.join(',')}]::real[]`)}) AS t(a, b))
-          / NULLIF(
-            SQRT((SELECT SUM(a * a) FROM UNNEST(embedding) AS t(a)))
-            * SQRT((SELECT SUM(b * b) FROM UNNEST(${sql.raw(`ARRAY[${queryEmbedding.join(',')}]::real[]`)}) AS t(b)))
-          , 0)
-        ) AS similarity
-      FROM tab_embeddings
-      WHERE user_id = ${userId}
-      ORDER BY similarity DESC
-      LIMIT ${limit}
-    `);
+        const provider = getEmbeddingProvider();
+        const queryEmbedding = await provider.embed(query);
+        const distance = cosineDistance(tabEmbeddings.embedding, queryEmbedding);
+        const results = await withIterativeScan((tx) => tx.select({
+            url: tabEmbeddings.url,
+            title: tabEmbeddings.title,
+            lastSeen: tabEmbeddings.updatedAt,
+            distance: sql<number>`${distance}`,
+        })
+            .from(tabEmbeddings)
+            .where(and(eq(tabEmbeddings.userId, userId), eq(tabEmbeddings.embeddingModel, provider.modelId)))
+            .orderBy(distance)
+            .limit(limit));
         res.json({
-            results: (results as any[]).map((row: any) => ({
-                url: row.url,
-                title: row.title,
-                lastSeen: row.updated_at,
-                similarity: Math.round((1 - (row.similarity ?? 1)) * 100) / 100,
-            })),
+            results: results.sort((a, b) => a.distance - b.distance).map(({ distance, ...row }) => ({ ...row, similarity: Math.round((1 - distance) * 100) / 100 })),
         });
     } catch (error) {
         console.error('History search failed:', error);
@@ -145,12 +147,129 @@ aiRouter.get('/history', async (req: Request, res: Response) => {
     }
 });
 
+// ---- AI tab agent proxy ----
+// The extension sends the request, earlier turns, its ranked tabs (domains only, never
+// URLs), windows and workspace names; the prompt is built here (services/agent-prompt) so
+// the managed key can't be used as a general-purpose model.
+// Signed-in users only, with per-user quotas that reset at midnight UTC.
+const AGENT_DAILY_REQUESTS = parseInt(process.env.AGENT_DAILY_REQUESTS || '200');
+const AGENT_DAILY_TOKENS = parseInt(process.env.AGENT_DAILY_TOKENS || '300000');
+const AGENT_MAX_TOKENS = 1024;
+
+async function getAgentUsage(userId: string, executor: Tx | typeof db = db) {
+    const [row] = await executor.select({
+        requests: sql<number>`count(*)::int`,
+        tokens: sql<number>`coalesce(sum(${aiUsage.promptTokens} + ${aiUsage.completionTokens}), 0)::int`,
+    })
+        .from(aiUsage)
+        .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, sql`date_trunc('day', now())`)));
+    return {
+        requests: row?.requests ?? 0,
+        tokens: row?.tokens ?? 0,
+        requestLimit: AGENT_DAILY_REQUESTS,
+        tokenLimit: AGENT_DAILY_TOKENS,
+    };
+}
+
+/**
+ * Check the quota and record the call in one step: a per-user advisory lock makes
+ * concurrent requests queue here, and each sees the ones before it as an ai_usage row
+ * (charged an estimate until the model reports real token counts). Returns null when over quota.
+ */
+async function reserveAgentCall(userId: string, estimatedTokens: number) {
+    return db.transaction(async (tx) => {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`ai_usage:${userId}`}))`);
+        const usage = await getAgentUsage(userId, tx);
+        if (usage.requests >= usage.requestLimit || usage.tokens >= usage.tokenLimit) return { usage, reservationId: null };
+        const [row] = await tx.insert(aiUsage).values({
+            userId,
+            model: getAgentModel(),
+            promptTokens: estimatedTokens,
+        }).returning({ id: aiUsage.id });
+        return { usage, reservationId: row.id };
+    });
+}
+
+// POST /api/ai/agent
+const agentSchema = z.object({
+    query: z.string().min(1).max(2000),
+    history: z.array(z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string().max(8000),
+    })).max(12).default([]),
+    tabs: z.array(z.object({
+        tabId: z.number().int(),
+        windowId: z.number().int(),
+        title: z.string().max(1000),
+        domain: z.string().max(255),
+        isActive: z.boolean().optional(),
+        isPinned: z.boolean().optional(),
+        isMuted: z.boolean().optional(),
+        isAudible: z.boolean().optional(),
+        groupId: z.number().int().optional(),
+        groupTitle: z.string().max(200).optional(),
+        groupColor: z.string().max(20).optional(),
+    })).max(1000),
+    omittedTabs: z.number().int().min(0).default(0), // ranked below what the client sent
+    windows: z.array(z.object({
+        windowId: z.number().int(),
+        tabCount: z.number().int().min(0),
+        activeTabTitle: z.string().max(1000).optional(),
+    })).max(100).default([]),
+    workspaces: z.array(z.object({
+        name: z.string().max(200),
+        tabCount: z.number().int().min(0),
+    })).max(200).default([]),
+}).strict();
+
+aiRouter.post('/agent', requireVerifiedUser, async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    const parsed = agentSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    if (!isAgentConfigured()) return res.status(503).json({ error: 'AI agent not configured on this server' });
+
+    const { query, history, tabs, omittedTabs, windows, workspaces } = parsed.data;
+    const system = buildAgentSystemPrompt(tabs, omittedTabs, windows, workspaces);
+    const messages = [...history, { role: 'user' as const, content: query }];
+    const promptChars = system.length + messages.reduce((n, m) => n + m.content.length, 0);
+    const { usage, reservationId } = await reserveAgentCall(userId, Math.ceil(promptChars / 4));
+    if (!reservationId) return res.status(429).json({ error: 'quota-exceeded', usage });
+
+    try {
+        const result = await completeAgentChat({ system, messages, json: true, temperature: 0.1, maxTokens: AGENT_MAX_TOKENS });
+        await db.update(aiUsage)
+            .set({ model: result.model, promptTokens: result.promptTokens, completionTokens: result.completionTokens })
+            .where(eq(aiUsage.id, reservationId));
+        console.log(`AI agent: user ${userId} ${result.model} ${result.promptTokens}+${result.completionTokens} tokens`);
+        res.json({
+            text: result.text,
+            usage: {
+                ...usage,
+                requests: usage.requests + 1,
+                tokens: usage.tokens + result.promptTokens + result.completionTokens,
+            },
+        });
+    } catch (error) {
+        // Failed calls don't count against the quota
+        await db.delete(aiUsage).where(eq(aiUsage.id, reservationId)).catch(() => {});
+        console.error('AI agent request failed:', error);
+        res.status(502).json({ error: 'AI agent request failed' });
+    }
+});
+
+// GET /api/ai/agent/usage — today's usage against the quotas
+aiRouter.get('/agent/usage', requireVerifiedUser, async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    res.json({ usage: await getAgentUsage(userId), model: isAgentConfigured() ? getAgentModel() : null });
+});
+
 // GET /api/ai/health
 aiRouter.get('/health', async (_req: Request, res: Response) => {
     try {
-        getGenAI();
-        res.json({ status: 'ok', model: 'gemini-embedding-001' });
+        const provider = getEmbeddingProvider();
+        if (!provider.isConfigured()) throw new Error();
+        res.json({ status: 'ok', model: provider.modelId });
     } catch {
-        res.status(503).json({ status: 'error', message: 'Gemini API not configured' });
+        res.status(503).json({ status: 'error', message: 'Embedding provider not configured' });
     }
 });
@@ -3,40 +3,137 @@
  */
 import { Router, Request, Response } from 'express';
 import { db } from '../db/index.js';
-import { tabAnalytics } from '../db/schema.js';
-import { eq, desc, sql } from 'drizzle-orm';
+import { tabAnalytics, tabAnalyticsBuckets, analyticsVisitIds } from '../db/schema.js';
+import { and, eq, desc, gte, lt, sql } from 'drizzle-orm';
 import { z } from 'zod';
 
 export const analyticsRouter = Router();
 
 // POST /api/analytics/visit
 const visitSchema = z.object({
+    visitId: z.string().uuid().optional(), // idempotency key; reports from older clients have none
     url: z.string(),
     title: z.string().max(512).optional(),
     domain: z.string().max(255),
-    durationMs: z.number().int().min(0).optional().default(0),
+    durationMs: z.number().int().min(0).max(24 * 60 * 60 * 1000).optional().default(0), // a day at most
+    startedAt: z.string().datetime().optional(), // when the visit began; defaults to now - durationMs
+    continued: z.boolean().optional(), // more time for a visit already reported: add time, not a visit
 });
 
+const HOUR_MS = 60 * 60 * 1000;
+// Counted visit ids are kept this long; the outbox retries far sooner than that
+const VISIT_ID_RETENTION = sql.raw(`interval '30 days'`);
+
+/** Split [start, start + durationMs) at UTC hour boundaries; always at least one slice. */
+function hourSlices(start: number, durationMs: number): Array<{ bucketStart: Date; durationMs: number }> {
+    const end = start + durationMs;
+    const slices: Array<{ bucketStart: Date; durationMs: number }> = [];
+    for (let hour = Math.floor(start / HOUR_MS) * HOUR_MS; hour < end || slices.length === 0; hour += HOUR_MS) {
+        slices.push({ bucketStart: new Date(hour), durationMs: Math.min(end, hour + HOUR_MS) - Math.max(start, hour) });
+    }
+    return slices;
+}
+
 analyticsRouter.post('/visit', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
     const parsed = visitSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
-    await db.execute(sql`
-    INSERT INTO tab_analytics (id, user_id, url, domain, title, visit_count, total_duration_ms, last_visited_at, created_at)
-    VALUES (gen_random_uuid(), ${userId}, ${parsed.data.url}, ${parsed.data.domain}, ${parsed.data.title ?? null}, 1, ${parsed.data.durationMs}, NOW(), NOW())
-    ON CONFLICT (id) DO UPDATE SET
-      visit_count = tab_analytics.visit_count + 1,
-      total_duration_ms = tab_analytics.total_duration_ms + ${parsed.data.durationMs},
-      last_visited_at = NOW()
-  `);
+    const { visitId, url, domain, title, durationMs } = parsed.data;
+    const visits = parsed.data.continued ? 0 : 1;
+    // Queued visits arrive late; a visit can't have ended in the future
+    const startedAt = Math.min(
+        parsed.data.startedAt ? Date.parse(parsed.data.startedAt) : Date.now() - durationMs,
+        Date.now() - durationMs,
+    );
+
+    // The visit id, both writes, or none of them: a retry of a report already counted
+    // (its response lost after the commit) finds its id and adds nothing
+    await db.transaction(async (tx) => {
+        if (visitId) {
+            const [fresh] = await tx.insert(analyticsVisitIds).values({ userId, visitId })
+                .onConflictDoNothing()
+                .returning({ id: analyticsVisitIds.id });
+            if (!fresh) return;
+            await tx.delete(analyticsVisitIds).where(and(
+                eq(analyticsVisitIds.userId, userId),
+                lt(analyticsVisitIds.createdAt, sql`now() - ${VISIT_ID_RETENTION}`),
+            ));
+        }
+        // One row per (user, url): the first visit inserts, later ones add to it
+        await tx.insert(tabAnalytics).values({
+            userId,
+            url,
+            domain,
+            title: title ?? null,
+            visitCount: visits,
+            totalDurationMs: durationMs,
+        }).onConflictDoUpdate({
+            target: [tabAnalytics.userId, tabAnalytics.url],
+            set: {
+                visitCount: sql`${tabAnalytics.visitCount} + ${visits}`,
+                totalDurationMs: sql`${tabAnalytics.totalDurationMs} + ${durationMs}`,
+                domain,
+                title: sql`coalesce(excluded.title, ${tabAnalytics.title})`,
+                lastVisitedAt: new Date(),
+            },
+        });
+        // ...and to the time series: the visit counts in the hour it began, its time in
+        // every hour it spans
+        await tx.insert(tabAnalyticsBuckets).values(hourSlices(startedAt, durationMs).map((slice, i) => ({
+            userId,
+            domain,
+            bucketStart: slice.bucketStart,
+            visits: i === 0 ? visits : 0,
+            durationMs: slice.durationMs,
+        }))).onConflictDoUpdate({
+            target: [tabAnalyticsBuckets.userId, tabAnalyticsBuckets.domain, tabAnalyticsBuckets.bucketStart],
+            set: {
+                visits: sql`${tabAnalyticsBuckets.visits} + excluded.visits`,
+                durationMs: sql`${tabAnalyticsBuckets.durationMs} + excluded.duration_ms`,
+            },
+        });
+    });
     res.json({ success: true });
 });
 
-// GET /api/analytics/top-domains
+// GET /api/analytics/top-domains?limit=&from=&to=
+// Lifetime totals per domain, or — with `from`/`to` — totals for that window from the hourly
+// buckets, by time spent (a larger limit is allowed there so clients can categorize a
+// whole week).
+const topDomainsRangeSchema = z.object({
+    from: z.string().datetime({ offset: true }),
+    to: z.string().datetime({ offset: true }),
+});
+
 analyticsRouter.get('/top-domains', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    if (req.query.from !== undefined || req.query.to !== undefined) {
+        const parsed = topDomainsRangeSchema.safeParse(req.query);
+        if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+        const from = new Date(parsed.data.from);
+        const to = new Date(parsed.data.to);
+        if (to <= from) return res.status(400).json({ error: '`to` must be after `from`' });
+        const limit = Math.min(parseInt(req.query.limit as string) || 10, 200);
+        const results = await db.select({
+            domain: tabAnalyticsBuckets.domain,
+            total_visits: sql<number>`sum(${tabAnalyticsBuckets.visits})::int`,
+            total_duration_ms: sql<number>`sum(${tabAnalyticsBuckets.durationMs})::float8`,
+        })
+            .from(tabAnalyticsBuckets)
+            .where(and(
+                eq(tabAnalyticsBuckets.userId, userId),
+                gte(tabAnalyticsBuckets.bucketStart, from),
+                lt(tabAnalyticsBuckets.bucketStart, to),
+            ))
+            .groupBy(tabAnalyticsBuckets.domain)
+            .orderBy(desc(sql`3`)) // by time spent
+            .limit(limit);
+        return res.json({ domains: results });
+    }
+
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
     const results = await db.execute(sql`
     SELECT
@@ -54,6 +151,59 @@ analyticsRouter.get('/top-domains', async (req: Request, res: Response) => {
     res.json({ domains: results });
 });
 
+// GET /api/analytics/timeseries?domain=&granularity=day&from=&to=&tz=
+// Visits and time per hour or day in [from, to), optionally for one domain. Days follow `tz`
+// (IANA name, default UTC); buckets with no activity are omitted.
+const MAX_SPAN_DAYS = { hour: 14, day: 366 } as const;
+
+const timeseriesSchema = z.object({
+    domain: z.string().max(255).optional(),
+    granularity: z.enum(['hour', 'day']).default('day'),
+    from: z.string().datetime({ offset: true }),
+    to: z.string().datetime({ offset: true }),
+    tz: z.string().max(64).default('UTC').refine((tz) => {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: tz });
+            return true;
+        } catch {
+            return false;
+        }
+    }, 'Unknown time zone'),
+});
+
+analyticsRouter.get('/timeseries', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const parsed = timeseriesSchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const { domain, granularity, tz } = parsed.data;
+    const from = new Date(parsed.data.from);
+    const to = new Date(parsed.data.to);
+    if (to <= from) return res.status(400).json({ error: '`to` must be after `from`' });
+    if (to.getTime() - from.getTime() > MAX_SPAN_DAYS[granularity] * 24 * HOUR_MS) {
+        return res.status(400).json({ error: `Range too long for ${granularity} buckets (max ${MAX_SPAN_DAYS[granularity]} days)` });
+    }
+
+    const local = sql`(${tabAnalyticsBuckets.bucketStart} AT TIME ZONE 'UTC') AT TIME ZONE ${tz}`;
+    const start = sql<string>`to_char(date_trunc(${granularity}, ${local}), 'YYYY-MM-DD"T"HH24:00')`;
+    const results = await db.select({
+        start,
+        visits: sql<number>`sum(${tabAnalyticsBuckets.visits})::int`,
+        durationMs: sql<number>`sum(${tabAnalyticsBuckets.durationMs})::float8`,
+    })
+        .from(tabAnalyticsBuckets)
+        .where(and(
+            eq(tabAnalyticsBuckets.userId, userId),
+            gte(tabAnalyticsBuckets.bucketStart, from),
+            lt(tabAnalyticsBuckets.bucketStart, to),
+            domain ? eq(tabAnalyticsBuckets.domain, domain) : undefined,
+        ))
+        // By position: repeating `start` would bind fresh parameters Postgres can't match to the select
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+    res.json({ granularity, tz, buckets: results });
+});
+
 // GET /api/analytics/summary
 analyticsRouter.get('/summary', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
@@ -3,8 +3,8 @@
  */
 import { Router, Request, Response } from 'express';
 import { db } from '../db/index.js';
-import { workspaces, bookmarks, notes, userSettings } from '../db/schema.js';
-import { eq, and } from 'drizzle-orm';
+import { workspaces, workspaceVersions, bookmarks, notes, userSettings, type WorkspaceTab, type WorkspaceGroup } from '../db/schema.js';
+import { eq, and, gt, lte, isNull, desc, sql } from 'drizzle-orm';
 import { z } from 'zod';
 
 export const syncRouter = Router();
@@ -14,7 +14,8 @@ export const syncRouter = Router();
 syncRouter.get('/workspaces', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
-    const result = await db.select().from(workspaces).where(eq(workspaces.userId, userId));
+    const result = await db.select().from(workspaces)
+        .where(and(eq(workspaces.userId, userId), isNull(workspaces.deletedAt)));
     res.json({ workspaces: result });
 });
 
@@ -24,7 +25,17 @@ const createWorkspaceSchema = z.object({
         url: z.string(),
         title: z.string(),
         faviconUrl: z.string().optional(),
+        pinned: z.boolean().optional(),
+        windowIndex: z.number().int().min(0).optional(),
+        groupTitle: z.string().optional(),
+        groupColor: z.string().optional(),
     })),
+    groups: z.array(z.object({
+        title: z.string(),
+        color: z.string(),
+        collapsed: z.boolean(),
+        windowIndex: z.number().int().min(0),
+    })).optional(),
 });
 
 syncRouter.post('/workspaces', async (req: Request, res: Response) => {
@@ -36,29 +47,122 @@ syncRouter.post('/workspaces', async (req: Request, res: Response) => {
         userId,
         name: parsed.data.name,
         tabs: parsed.data.tabs,
+        groups: parsed.data.groups ?? null,
     }).returning();
     res.status(201).json({ workspace });
 });
 
+const MAX_VERSIONS_PER_WORKSPACE = 50;
+
+/** Deep equality for jsonb values — Postgres doesn't preserve object key order. */
+function sameJson(a: unknown, b: unknown): boolean {
+    const canonical = (v: unknown): unknown => {
+        if (Array.isArray(v)) return v.map(canonical);
+        if (v && typeof v === 'object') {
+            const entries = Object.entries(v).filter(([, value]) => value !== undefined);
+            return Object.fromEntries(entries.sort(([a], [b]) => a.localeCompare(b)).map(([k, value]) => [k, canonical(value)]));
+        }
+        return v;
+    };
+    return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Save the workspace's current content as a version before an update replaces it.
+ * No-op when the row doesn't exist yet or the update leaves name and tabs unchanged.
+ */
+async function snapshotWorkspace(
+    tx: Tx, userId: string, id: string, next: { name?: string; tabs?: WorkspaceTab[]; groups?: WorkspaceGroup[] },
+) {
+    const [current] = await tx.select().from(workspaces)
+        .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId), isNull(workspaces.deletedAt)));
+    if (!current) return;
+    const nameChanged = next.name !== undefined && next.name !== current.name;
+    const tabsChanged = next.tabs !== undefined && !sameJson(next.tabs, current.tabs);
+    const groupsChanged = next.groups !== undefined && !sameJson(next.groups, current.groups);
+    if (!nameChanged && !tabsChanged && !groupsChanged) return;
+
+    await tx.insert(workspaceVersions).values({
+        workspaceId: id, userId, name: current.name, tabs: current.tabs, groups: current.groups,
+    });
+    await tx.execute(sql`
+        DELETE FROM workspace_versions
+        WHERE workspace_id = ${id} AND id NOT IN (
+            SELECT id FROM workspace_versions WHERE workspace_id = ${id}
+            ORDER BY created_at DESC LIMIT ${MAX_VERSIONS_PER_WORKSPACE}
+        )
+    `);
+}
+
 syncRouter.patch('/workspaces/:id', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
     const id = req.params.id as string;
     const parsed = createWorkspaceSchema.partial().safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
-    const [workspace] = await db.update(workspaces)
-        .set({ ...parsed.data, updatedAt: new Date() })
-        .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)))
-        .returning();
+    const workspace = await db.transaction(async (tx) => {
+        await snapshotWorkspace(tx, userId, id, parsed.data);
+        const [row] = await tx.update(workspaces)
+            .set({ ...parsed.data, updatedAt: new Date() })
+            .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId), isNull(workspaces.deletedAt)))
+            .returning();
+        return row;
+    });
+    if (!workspace) return res.status(404).json({ error: 'Workspace not found' });
+    res.json({ workspace });
+});
+
+// PUT /api/sync/workspaces/:id — upsert with a client-generated id (used by the extension's sync engine)
+syncRouter.put('/workspaces/:id', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const id = z.string().uuid().safeParse(req.params.id);
+    if (!id.success) return res.status(400).json({ error: 'Invalid workspace id' });
+    const parsed = createWorkspaceSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const workspace = await db.transaction(async (tx) => {
+        await snapshotWorkspace(tx, userId, id.data, parsed.data);
+        const groups = parsed.data.groups ?? null;
+        const [row] = await tx.insert(workspaces).values({
+            id: id.data,
+            userId,
+            name: parsed.data.name,
+            tabs: parsed.data.tabs,
+            groups,
+        }).onConflictDoUpdate({
+            target: workspaces.id,
+            set: { name: parsed.data.name, tabs: parsed.data.tabs, groups, updatedAt: new Date(), deletedAt: null },
+            // Never let one user overwrite another user's row by guessing its id
+            setWhere: eq(workspaces.userId, userId),
+        }).returning();
+        return row;
+    });
     if (!workspace) return res.status(404).json({ error: 'Workspace not found' });
     res.json({ workspace });
 });
 
+// GET /api/sync/workspaces/:id/versions — earlier contents, newest first
+syncRouter.get('/workspaces/:id/versions', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const id = z.string().uuid().safeParse(req.params.id);
+    if (!id.success) return res.status(400).json({ error: 'Invalid workspace id' });
+    const versions = await db.select().from(workspaceVersions)
+        .where(and(eq(workspaceVersions.workspaceId, id.data), eq(workspaceVersions.userId, userId)))
+        .orderBy(desc(workspaceVersions.createdAt))
+        .limit(MAX_VERSIONS_PER_WORKSPACE);
+    res.json({ versions });
+});
+
 syncRouter.delete('/workspaces/:id', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
     const id = req.params.id as string;
-    await db.delete(workspaces).where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)));
+    const now = new Date();
+    await db.update(workspaces)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)));
     res.json({ success: true });
 });
 
@@ -67,7 +171,8 @@ syncRouter.delete('/workspaces/:id', async (req: Request, res: Response) => {
 syncRouter.get('/bookmarks', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
-    const result = await db.select().from(bookmarks).where(eq(bookmarks.userId, userId));
+    const result = await db.select().from(bookmarks)
+        .where(and(eq(bookmarks.userId, userId), isNull(bookmarks.deletedAt)));
     res.json({ bookmarks: result });
 });
 
@@ -85,6 +190,9 @@ syncRouter.post('/bookmarks', async (req: Request, res: Response) => {
     const [bookmark] = await db.insert(bookmarks).values({
         userId,
         ...parsed.data,
+    }).onConflictDoUpdate({
+        target: [bookmarks.userId, bookmarks.url],
+        set: { title: parsed.data.title, faviconUrl: parsed.data.faviconUrl, updatedAt: new Date(), deletedAt: null },
     }).returning();
     res.status(201).json({ bookmark });
 });
@@ -93,7 +201,23 @@ syncRouter.delete('/bookmarks/:id', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
     const id = req.params.id as string;
-    await db.delete(bookmarks).where(and(eq(bookmarks.id, id), eq(bookmarks.userId, userId)));
+    const now = new Date();
+    await db.update(bookmarks)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(bookmarks.id, id), eq(bookmarks.userId, userId)));
+    res.json({ success: true });
+});
+
+// DELETE /api/sync/bookmarks?url=... — the extension keys bookmarks by URL, not server id
+syncRouter.delete('/bookmarks', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const url = req.query.url as string;
+    if (!url) return res.status(400).json({ error: 'Missing url parameter' });
+    const now = new Date();
+    await db.update(bookmarks)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(bookmarks.userId, userId), eq(bookmarks.url, url), isNull(bookmarks.deletedAt)));
     res.json({ success: true });
 });
 
@@ -102,7 +226,8 @@ syncRouter.delete('/bookmarks/:id', async (req: Request, res: Response) => {
 syncRouter.get('/notes', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
-    const result = await db.select().from(notes).where(eq(notes.userId, userId));
+    const result = await db.select().from(notes)
+        .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)));
     res.json({ notes: result });
 });
 
@@ -119,10 +244,26 @@ syncRouter.post('/notes', async (req: Request, res: Response) => {
     const [note] = await db.insert(notes).values({
         userId,
         ...parsed.data,
+    }).onConflictDoUpdate({
+        target: [notes.userId, notes.url],
+        set: { content: parsed.data.content, updatedAt: new Date(), deletedAt: null },
     }).returning();
     res.status(201).json({ note });
 });
 
+// DELETE /api/sync/notes?url=...
+syncRouter.delete('/notes', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const url = req.query.url as string;
+    if (!url) return res.status(400).json({ error: 'Missing url parameter' });
+    const now = new Date();
+    await db.update(notes)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(notes.userId, userId), eq(notes.url, url), isNull(notes.deletedAt)));
+    res.json({ success: true });
+});
+
 // ---- Settings ----
 
 syncRouter.get('/settings', async (req: Request, res: Response) => {
@@ -132,15 +273,106 @@ syncRouter.get('/settings', async (req: Request, res: Response) => {
     res.json({ settings: result[0]?.settings ?? null });
 });
 
+/** Drop AI provider API keys that older extensions included; they belong to one browser only. */
+function withoutApiKeys(settings: Record<string, unknown>): Record<string, unknown> {
+    const { groqApiKey: _groqApiKey, ...rest } = settings;
+    const providers = rest.aiProviders;
+    if (!providers || typeof providers !== 'object') return rest;
+    return {
+        ...rest,
+        aiProviders: Object.fromEntries(Object.entries(providers).map(([id, config]) => {
+            if (!config || typeof config !== 'object') return [id, config];
+            const { apiKey: _apiKey, ...kept } = config as Record<string, unknown>;
+            return [id, kept];
+        })),
+    };
+}
+
 syncRouter.put('/settings', async (req: Request, res: Response) => {
     const userId = req.headers['x-user-id'] as string;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Settings must be an object' });
+    }
+    const settings = withoutApiKeys(req.body);
     const [setting] = await db.insert(userSettings).values({
         userId,
-        settings: req.body,
+        settings,
     }).onConflictDoUpdate({
         target: userSettings.userId,
-        set: { settings: req.body, updatedAt: new Date() },
+        set: { settings, updatedAt: new Date() },
     }).returning();
     res.json({ settings: setting.settings });
 });
+
+// ---- Incremental changes ----
+
+// GET /api/sync/changes?since=<cursor>
+// Returns every workspace, bookmark and note written since the cursor — live rows as
+// `upserted`, soft-deleted rows as `deleted` tombstones — plus settings if they changed.
+// The new cursor is fixed before reading so rows written mid-request land in the next poll.
+//
+// updated_at is stamped when a write starts, not when it commits, so a slow transaction can
+// commit a row older than a cursor we already handed out. Each poll therefore re-reads a
+// CHANGES_OVERLAP window before the cursor; clients merge by id/url and updatedAt, so rows
+// they've already seen are no-ops.
+const CHANGES_OVERLAP = sql.raw(`interval '2 minutes'`);
+
+syncRouter.get('/changes', async (req: Request, res: Response) => {
+    const userId = req.headers['x-user-id'] as string;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const since = typeof req.query.since === 'string' && req.query.since ? req.query.since : null;
+    if (since && (since.length > 64 || Number.isNaN(Date.parse(since.replace(' ', 'T'))))) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    // Cursor is the newest updated_at as text, keeping Postgres' microsecond precision
+    const [head] = await db.execute(sql`
+    SELECT GREATEST(
+      (SELECT MAX(updated_at) FROM workspaces WHERE user_id = ${userId}),
+      (SELECT MAX(updated_at) FROM bookmarks WHERE user_id = ${userId}),
+      (SELECT MAX(updated_at) FROM notes WHERE user_id = ${userId}),
+      (SELECT MAX(updated_at) FROM user_settings WHERE user_id = ${userId})
+    )::text AS cursor
+  `) as any[];
+    const cursor: string | null = head?.cursor ?? since;
+    if (!cursor) {
+        return res.json({
+            cursor: null,
+            workspaces: { upserted: [], deleted: [] },
+            bookmarks: { upserted: [], deleted: [] },
+            notes: { upserted: [], deleted: [] },
+            settings: null,
+        });
+    }
+
+    const after = since ? sql`${since}::timestamp - ${CHANGES_OVERLAP}` : null;
+    const changedSince = <T extends typeof workspaces | typeof bookmarks | typeof notes>(table: T) => and(
+        eq(table.userId, userId),
+        after ? gt(table.updatedAt, after) : undefined,
+        lte(table.updatedAt, sql`${cursor}::timestamp`),
+    );
+
+    const [changedWorkspaces, changedBookmarks, changedNotes, changedSettings] = await Promise.all([
+        db.select().from(workspaces).where(changedSince(workspaces)),
+        db.select().from(bookmarks).where(changedSince(bookmarks)),
+        db.select().from(notes).where(changedSince(notes)),
+        db.select().from(userSettings).where(and(
+            eq(userSettings.userId, userId),
+            after ? gt(userSettings.updatedAt, after) : undefined,
+        )),
+    ]);
+
+    const split = <T extends { id: string; deletedAt: Date | null }, D>(rows: T[], tombstone: (row: T) => D) => ({
+        upserted: rows.filter((r) => !r.deletedAt),
+        deleted: rows.filter((r) => r.deletedAt).map(tombstone),
+    });
+
+    res.json({
+        cursor,
+        workspaces: split(changedWorkspaces, (w) => ({ id: w.id, deletedAt: w.deletedAt })),
+        bookmarks: split(changedBookmarks, (b) => ({ id: b.id, url: b.url, deletedAt: b.deletedAt })),
+        notes: split(changedNotes, (n) => ({ id: n.id, url: n.url, deletedAt: n.deletedAt })),
+        settings: changedSettings[0]?.settings ?? null,
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * One-off cleanup before pushing the (user_id, url) unique index on tab_analytics.
+ *
+ * Older servers inserted a new row on every visit (the upsert conflicted on a fresh id, so
+ * it never fired), leaving many rows per URL with visit_count = 1. Folds each (user_id, url)
+ * into its most recently visited row — visits and durations summed, first and last visit
+ * kept, latest known title — and deletes the rest. total_duration_ms becomes bigint first
+ * so the sums can't overflow.
+ *
+ * Usage: pnpm db:collapse-analytics && pnpm db:push
+ */
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+
+async function main() {
+    const removed = await db.transaction(async (tx) => {
+        await tx.execute(sql`ALTER TABLE tab_analytics ALTER COLUMN total_duration_ms TYPE bigint`);
+        const rows = await tx.execute(sql`
+            WITH agg AS (
+                SELECT
+                    user_id,
+                    url,
+                    SUM(visit_count) AS visits,
+                    SUM(total_duration_ms) AS duration,
+                    MAX(last_visited_at) AS last_visited,
+                    MIN(created_at) AS created,
+                    (ARRAY_AGG(title ORDER BY last_visited_at DESC) FILTER (WHERE title IS NOT NULL))[1] AS title,
+                    (ARRAY_AGG(id ORDER BY last_visited_at DESC, id))[1] AS keep_id
+                FROM tab_analytics
+                GROUP BY user_id, url
+                HAVING COUNT(*) > 1
+            ), merged AS (
+                UPDATE tab_analytics t
+                SET visit_count = agg.visits,
+                    total_duration_ms = agg.duration,
+                    last_visited_at = agg.last_visited,
+                    created_at = agg.created,
+                    title = COALESCE(agg.title, t.title)
+                FROM agg
+                WHERE t.id = agg.keep_id
+                RETURNING t.id
+            )
+            DELETE FROM tab_analytics t
+            USING agg
+            WHERE t.user_id = agg.user_id AND t.url = agg.url AND t.id <> agg.keep_id
+            RETURNING t.id
+        `);
+        return rows.length;
+    });
+    console.log(`tab_analytics: folded ${removed} duplicate row(s)`);
+    await db.$client.end();
+}
+
+main().catch((err) => {
+    console.error('Collapse failed:', err);
+    process.exit(1);
+});
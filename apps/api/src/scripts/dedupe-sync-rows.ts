@@ -0,0 +1,39 @@
+/**
+ * One-off cleanup before pushing the (user_id, url) unique indexes on notes, bookmarks and
+ * tab_embeddings.
+ *
+ * Older servers inserted a new row on every save (or, for embeddings, every visit), so a
+ * user can have many rows per URL. Keeps the most recently updated row for each
+ * (user_id, url) — live or tombstoned, it reflects the latest state — and deletes the rest.
+ * Ties (bookmarks had updated_at backfilled to one value) go to the newest created_at.
+ *
+ * Usage: pnpm db:dedupe-sync && pnpm db:push
+ */
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+
+async function dedupe(table: 'notes' | 'bookmarks' | 'tab_embeddings'): Promise<number> {
+    const rows = await db.execute(sql`
+        DELETE FROM ${sql.identifier(table)} a
+        USING ${sql.identifier(table)} b
+        WHERE a.user_id = b.user_id
+          AND a.url = b.url
+          AND (a.updated_at, a.created_at, a.id) < (b.updated_at, b.created_at, b.id)
+        RETURNING a.id
+    `);
+    return rows.length;
+}
+
+async function main() {
+    for (const table of ['notes', 'bookmarks', 'tab_embeddings'] as const) {
+        const removed = await dedupe(table);
+        console.log(`${table}: removed ${removed} duplicate row(s)`);
+    }
+    await db.$client.end();
+}
+
+main().catch((err) => {
+    console.error('Dedupe failed:', err);
+    process.exit(1);
+});
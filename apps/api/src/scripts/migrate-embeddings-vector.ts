@@ -0,0 +1,105 @@
+/**
+ * One-off migration of tab_embeddings.embedding from real[] to pgvector's vector(768),
+ * plus the HNSW index search relies on. Run it before `pnpm db:push` on an existing database;
+ * on a new one it only enables the vector extension.
+ *
+ * A vector column has a fixed size, so rows of any other length (e.g. from an older local
+ * model) are re-embedded with the active provider first; rows that fail are deleted.
+ *
+ * Search needs pgvector >= 0.8 (iterative HNSW scans); older versions are updated in place
+ * where the server has the newer extension files, and the script fails otherwise.
+ *
+ * Usage: pnpm db:migrate-vectors && pnpm db:push
+ */
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { EMBEDDING_DIMENSIONS } from '../db/schema.js';
+import { getEmbeddingProvider, embeddingText } from '../services/embeddings.js';
+
+async function columnType(): Promise<string | null> {
+    const rows = await db.execute(sql`
+        SELECT udt_name FROM information_schema.columns
+        WHERE table_name = 'tab_embeddings' AND column_name = 'embedding'
+    `);
+    return (rows[0]?.udt_name as string | undefined) ?? null;
+}
+
+async function fixDimensions(): Promise<void> {
+    const rows = await db.execute(sql`
+        SELECT id, url, title, content_summary FROM tab_embeddings
+        WHERE array_length(embedding, 1) IS DISTINCT FROM ${EMBEDDING_DIMENSIONS}
+    `);
+    if (rows.length === 0) return;
+    console.log(`${rows.length} row(s) are not ${EMBEDDING_DIMENSIONS}-dim, re-embedding`);
+
+    const provider = getEmbeddingProvider();
+    for (const row of rows) {
+        const id = row.id as string;
+        try {
+            const embedding = await provider.embed(embeddingText({
+                title: row.title as string,
+                url: row.url as string,
+                contentSummary: row.content_summary as string | null,
+            }));
+            await db.execute(sql`
+                UPDATE tab_embeddings
+                SET embedding = ${`{${embedding.join(',')}}`}::real[], embedding_model = ${provider.modelId}
+                WHERE id = ${id}
+            `);
+        } catch (err) {
+            console.error(`  ${row.url}: ${err instanceof Error ? err.message : err} — deleting`);
+            await db.execute(sql`DELETE FROM tab_embeddings WHERE id = ${id}`);
+        }
+    }
+}
+
+const MIN_PGVECTOR = [0, 8];
+
+async function ensureVectorVersion(): Promise<void> {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+    const version = async () => {
+        const rows = await db.execute(sql`SELECT extversion FROM pg_extension WHERE extname = 'vector'`);
+        return String(rows[0]?.extversion ?? '0');
+    };
+    const tooOld = (v: string) => {
+        const [major, minor] = v.split('.').map(Number);
+        return major < MIN_PGVECTOR[0] || (major === MIN_PGVECTOR[0] && minor < MIN_PGVECTOR[1]);
+    };
+    if (tooOld(await version())) await db.execute(sql`ALTER EXTENSION vector UPDATE`).catch(() => {});
+    const current = await version();
+    if (tooOld(current)) throw new Error(`pgvector ${current} is too old; semantic search needs ${MIN_PGVECTOR.join('.')} or newer`);
+    console.log(`pgvector ${current}`);
+}
+
+async function main() {
+    await ensureVectorVersion();
+
+    const type = await columnType();
+    if (type === null) {
+        console.log('tab_embeddings does not exist yet — vector extension enabled, run pnpm db:push');
+    } else if (type === 'vector') {
+        console.log('tab_embeddings.embedding is already a vector column');
+    } else {
+        await fixDimensions();
+        await db.execute(sql.raw(`
+            ALTER TABLE tab_embeddings
+            ALTER COLUMN embedding TYPE vector(${EMBEDDING_DIMENSIONS}) USING embedding::vector(${EMBEDDING_DIMENSIONS})
+        `));
+        console.log(`tab_embeddings.embedding converted to vector(${EMBEDDING_DIMENSIONS})`);
+    }
+
+    if (type !== null) {
+        await db.execute(sql`
+            CREATE INDEX IF NOT EXISTS embeddings_vector_idx
+            ON tab_embeddings USING hnsw (embedding vector_cosine_ops)
+        `);
+        console.log('HNSW index embeddings_vector_idx ready');
+    }
+    await db.$client.end();
+}
+
+main().catch((err) => {
+    console.error('Vector migration failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,58 @@
+/**
+ * Re-embed stored tabs after changing EMBEDDING_PROVIDER (or LOCAL_EMBEDDING_MODEL).
+ *
+ * Search only compares vectors from the active model, so rows embedded by another one
+ * are invisible until this runs. Rewrites every tab_embeddings row whose embedding_model
+ * differs from the active provider, in batches, from the stored title/url/summary.
+ * Safe to stop and re-run: finished rows are skipped.
+ *
+ * Usage: pnpm db:reembed
+ */
+import 'dotenv/config';
+import { eq, ne, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { tabEmbeddings } from '../db/schema.js';
+import { getEmbeddingProvider, embeddingText } from '../services/embeddings.js';
+
+const BATCH_SIZE = 50;
+
+async function main() {
+    const provider = getEmbeddingProvider();
+    console.log(`Re-embedding with ${provider.modelId}`);
+    let done = 0;
+    let failed = 0;
+    const skip = new Set<string>(); // rows that failed this run, so the loop can't spin on them
+
+    for (;;) {
+        const rows = await db.select().from(tabEmbeddings)
+            .where(ne(tabEmbeddings.embeddingModel, provider.modelId))
+            .orderBy(tabEmbeddings.id)
+            .limit(BATCH_SIZE + skip.size);
+        const batch = rows.filter((r) => !skip.has(r.id)).slice(0, BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        for (const row of batch) {
+            try {
+                const embedding = await provider.embed(embeddingText(row));
+                await db.update(tabEmbeddings)
+                    .set({ embedding, embeddingModel: provider.modelId, updatedAt: sql`now()` })
+                    .where(eq(tabEmbeddings.id, row.id));
+                done++;
+            } catch (err) {
+                console.error(`  ${row.url}: ${err instanceof Error ? err.message : err}`);
+                skip.add(row.id);
+                failed++;
+            }
+        }
+        console.log(`  ${done} re-embedded${failed ? `, ${failed} failed` : ''}`);
+    }
+
+    console.log(`Done: ${done} row(s) re-embedded, ${failed} failed`);
+    await db.$client.end();
+    if (failed) process.exit(1);
+}
+
+main().catch((err) => {
+    console.error('Re-embed failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,64 @@
+/**
+ * Server-side chat model for the AI tab agent, so an organization can run the agent on one
+ * centrally managed key instead of a key pasted into every browser. Talks to any
+ * OpenAI-compatible chat completions endpoint (Groq by default):
+ *
+ * - AGENT_LLM_API_KEY: required
+ * - AGENT_LLM_BASE_URL: default https://api.groq.com/openai/v1
+ * - AGENT_LLM_MODEL: default llama-3.3-70b-versatile
+ */
+
+export interface AgentChatRequest {
+    system: string;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    json?: boolean;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface AgentChatResult {
+    text: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export function getAgentModel(): string {
+    return process.env.AGENT_LLM_MODEL || 'llama-3.3-70b-versatile';
+}
+
+export function isAgentConfigured(): boolean {
+    return Boolean(process.env.AGENT_LLM_API_KEY);
+}
+
+export async function completeAgentChat(request: AgentChatRequest): Promise<AgentChatResult> {
+    const apiKey = process.env.AGENT_LLM_API_KEY;
+    if (!apiKey) throw new Error('AGENT_LLM_API_KEY not set');
+    const baseUrl = (process.env.AGENT_LLM_BASE_URL || 'https://api.groq.com/openai/v1').replace(/\/+$/, '');
+    const model = getAgentModel();
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({
+            model,
+            messages: [{ role: 'system', content: request.system }, ...request.messages],
+            ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+            temperature: request.temperature ?? 0.1,
+            max_tokens: request.maxTokens ?? 1024,
+        }),
+    });
+    if (!res.ok) throw new Error(`Model API ${res.status}: ${await res.text().catch(() => '')}`);
+    const data = await res.json() as {
+        choices?: Array<{ message?: { content?: string } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new Error('Model returned an empty response');
+    return {
+        text,
+        model,
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+    };
+}
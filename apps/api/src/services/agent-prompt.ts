@@ -0,0 +1,52 @@
+/**
+ * System prompt for the server-side AI tab agent. It's built here rather than by the
+ * extension so the managed model key can only drive tab management: clients send their
+ * request, earlier turns, tabs, windows and workspace names — never a prompt of their own.
+ *
+ * The actions, rules and layout come from shared/agent-prompt, which the extension uses
+ * for its own prompt too; only the read-only tools are left out (they read browser state
+ * the server can't see). The extension ranks and trims the tabs before sending them and
+ * validates every returned action against what's actually open.
+ */
+import { buildAgentPrompt, formatTabLine, type PromptTab, type PromptWindow, type PromptWorkspace } from '../shared/agent-prompt.js';
+
+export interface AgentTab extends PromptTab {
+    domain: string;
+}
+
+const MAX_TAB_LIST_CHARS = 24_000; // ~6k tokens of tabs
+
+/** Tabs under their domain in the order the client ranked them, until the character budget runs out. */
+function tabList(tabs: AgentTab[], omittedByClient: number): string {
+    const byDomain = new Map<string, string[]>(); // insertion order = best-ranked domain first
+    let chars = 0;
+    let shown = 0;
+    for (const t of tabs) {
+        const line = formatTabLine(t, t.domain);
+        const cost = line.length + 1 + (byDomain.has(t.domain) ? 0 : t.domain.length + 2);
+        if (chars + cost > MAX_TAB_LIST_CHARS) break;
+        chars += cost;
+        shown++;
+        byDomain.set(t.domain, [...(byDomain.get(t.domain) ?? []), line]);
+    }
+    const lines = [...byDomain.entries()].flatMap(([domain, tabLines]) => [`${domain}:`, ...tabLines]);
+    const omitted = tabs.length - shown + omittedByClient;
+    if (omitted > 0) lines.push(`(+${omitted} less relevant tabs not listed)`);
+    return lines.join('\n');
+}
+
+export function buildAgentSystemPrompt(
+    tabs: AgentTab[],
+    omittedTabs: number,
+    windows: PromptWindow[],
+    workspaces: PromptWorkspace[],
+    now = new Date(),
+): string {
+    return buildAgentPrompt({
+        tabList: tabList(tabs, omittedTabs),
+        tabs,
+        windows,
+        workspaces,
+        now: `${now.toISOString()} (UTC)`,
+    });
+}
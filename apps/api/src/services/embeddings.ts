@@ -0,0 +1,91 @@
+/**
+ * Embedding providers for semantic tab search.
+ *
+ * EMBEDDING_PROVIDER picks one:
+ * - gemini (default): Gemini gemini-embedding-001 over the network, needs GEMINI_API_KEY
+ * - local: an ONNX sentence-transformer run on the CPU via transformers.js, no network once
+ *   the model is on disk (LOCAL_EMBEDDING_MODEL, default Xenova/all-mpnet-base-v2)
+ *
+ * Vectors from different models can't be compared, so every stored row records the model
+ * that produced it and search only looks at rows from the active one. After switching
+ * providers, `pnpm db:reembed` brings the old rows over. The vector column has a fixed size
+ * (EMBEDDING_DIMENSIONS), so a local model must produce vectors of that size.
+ */
+import { GoogleGenerativeAI, type EmbedContentRequest } from '@google/generative-ai';
+import { EMBEDDING_DIMENSIONS } from '../db/schema.js';
+
+export interface EmbeddingProvider {
+    /** Stored with each vector, e.g. "gemini:gemini-embedding-001". */
+    modelId: string;
+    /** False when required config (e.g. an API key) is missing. */
+    isConfigured(): boolean;
+    embed(text: string): Promise<number[]>;
+}
+
+function geminiProvider(): EmbeddingProvider {
+    const model = 'gemini-embedding-001';
+    let genAI: GoogleGenerativeAI | null = null;
+    return {
+        modelId: `gemini:${model}`,
+        isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+        async embed(text) {
+            if (!genAI) {
+                const apiKey = process.env.GEMINI_API_KEY;
+                if (!apiKey) throw new Error('GEMINI_API_KEY not set');
+                genAI = new GoogleGenerativeAI(apiKey);
+            }
+            // gemini-embedding-001 returns 3072 dims by default; ask for the column's size
+            const request = {
+                content: { role: 'user', parts: [{ text }] },
+                outputDimensionality: EMBEDDING_DIMENSIONS,
+            } as EmbedContentRequest;
+            const result = await genAI.getGenerativeModel({ model }).embedContent(request);
+            return result.embedding.values;
+        },
+    };
+}
+
+function localProvider(): EmbeddingProvider {
+    const model = process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/all-mpnet-base-v2';
+    // Loaded on first use so Gemini deployments never start the ONNX runtime
+    let extractor: Promise<(text: string, options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: ArrayLike<number> }>> | null = null;
+    return {
+        modelId: `local:${model}`,
+        isConfigured: () => true,
+        async embed(text) {
+            if (!extractor) {
+                extractor = import('@huggingface/transformers').then(async ({ pipeline, env }) => {
+                    if (process.env.EMBEDDING_MODEL_DIR) env.localModelPath = process.env.EMBEDDING_MODEL_DIR;
+                    // Air-gapped: only use models already on disk, never try the Hugging Face hub
+                    if (process.env.EMBEDDING_OFFLINE === 'true') env.allowRemoteModels = false;
+                    const pipe = await pipeline('feature-extraction', model, { dtype: 'q8' });
+                    return (input, options) => pipe(input, options);
+                });
+                extractor.catch(() => { extractor = null; }); // retry the load on the next call
+            }
+            const output = await (await extractor)(text, { pooling: 'mean', normalize: true });
+            if (output.data.length !== EMBEDDING_DIMENSIONS) {
+                throw new Error(`${model} returns ${output.data.length}-dim vectors; the embedding column needs ${EMBEDDING_DIMENSIONS}`);
+            }
+            return Array.from(output.data);
+        },
+    };
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/** The provider selected by EMBEDDING_PROVIDER. */
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (!provider) {
+        const name = process.env.EMBEDDING_PROVIDER || 'gemini';
+        if (name === 'gemini') provider = geminiProvider();
+        else if (name === 'local') provider = localProvider();
+        else throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected gemini or local)`);
+    }
+    return provider;
+}
+
+/** The text embedded for a stored tab. */
+export function embeddingText(tab: { title: string; url: string; contentSummary?: string | null }): string {
+    return [tab.title, tab.url, tab.contentSummary].filter(Boolean).join(' | ');
+}
@@ -0,0 +1,157 @@
+/**
+ * The AI tab agent's prompt: the actions it may return, the rules for choosing between
+ * them, and how tabs, groups, windows and workspaces are listed. Shared by the extension
+ * (prompt for the user's own provider) and the API (prompt for the managed model), so
+ * both offer exactly the same actions; the extension type-checks its action schemas
+ * against AGENT_ACTIONS.
+ *
+ * Both builds import this file, so it must stay free of Node and browser APIs.
+ */
+
+const COLORS = 'blue|cyan|green|yellow|orange|red|pink|purple|grey';
+
+interface AgentActionSpec {
+    type: string;
+    fields: string; // the action's other JSON fields
+    hint?: string;
+    needsTools?: boolean; // only usable with the extension's read-only tools
+}
+
+export const AGENT_ACTIONS = [
+    { type: 'group-tabs', fields: `"tabIds":[number],"title":"string","color":"${COLORS}"`, hint: 'groups EXISTING tabs' },
+    { type: 'open-urls-in-group', fields: `"urls":["string"],"title":"string","color":"${COLORS}"`, hint: 'opens NEW URLs and groups them' },
+    { type: 'close-tab', fields: '"tabId":number' },
+    { type: 'close-tabs', fields: '"tabIds":[number]' },
+    { type: 'close-by-domain', fields: '"domain":"string","keepTabId":number|null', hint: 'closes all tabs from a domain; set keepTabId to spare one' },
+    { type: 'open-url', fields: '"url":"string"', hint: 'opens a single new tab' },
+    { type: 'pin-tab', fields: '"tabId":number,"pinned":boolean' },
+    { type: 'mute-tab', fields: '"tabId":number,"muted":boolean' },
+    { type: 'bookmark-tab', fields: '"tabId":number,"folder":"string (optional)"' },
+    { type: 'duplicate-tab', fields: '"tabId":number' },
+    { type: 'switch-tab', fields: '"tabId":number' },
+    { type: 'move-to-new-window', fields: '"tabId":number' },
+    { type: 'reload-tab', fields: '"tabId":number' },
+    { type: 'ungroup-tabs', fields: '"tabIds":[number]' },
+    { type: 'rename-group', fields: `"groupId":number,"title":"string (optional)","color":"${COLORS} (optional)"`, hint: 'use exact groupId from the group list above' },
+    { type: 'split-view', fields: '"tabId1":number,"tabId2":number' },
+    { type: 'merge-windows', fields: '' },
+    { type: 'focus-window', fields: '"windowId":number', hint: 'bring a window to front; use exact windowId from the window list above' },
+    { type: 'discard-tabs', fields: '"tabIds":[number]', hint: 'suspend/hibernate tabs to free memory without closing them' },
+    { type: 'reopen-last-closed', fields: '' },
+    { type: 'create-workspace', fields: '"name":"string"' },
+    { type: 'restore-workspace', fields: '"name":"string","mode":"missing|replace|new-window (optional, default new-window)"', hint: 'use an exact name from the workspace list' },
+    { type: 'delete-workspace', fields: '"name":"string"', hint: 'use an exact name from the workspace list' },
+    { type: 'snooze-tab', fields: '"tabId":number,"until":"ISO 8601 datetime"', hint: 'closes the tab and reopens it at that time' },
+    { type: 'cancel-snooze', fields: '"url":"string"', hint: 'wake a snoozed tab now; use a URL from list_snoozed', needsTools: true },
+    { type: 'set-note', fields: '"tabId":number,"note":"string"', hint: 'empty note removes it' },
+    { type: 'bookmark-tabs', fields: '"tabIds":[number],"folder":"string"', hint: 'bookmark several tabs into one folder' },
+    { type: 'sort-tabs', fields: '"windowId":number,"by":"title|domain|recent"' },
+    { type: 'collapse-group', fields: '"groupId":number,"collapsed":boolean' },
+] as const satisfies readonly AgentActionSpec[];
+
+export type AgentActionType = (typeof AGENT_ACTIONS)[number]['type'];
+
+const AGENT_RULES = [
+    'When user asks to open NEW URLs and group them, use open-urls-in-group (NOT open-url + group-tabs).',
+    'Use group-tabs only to group tabs that already exist in the tab list above.',
+    'Use create-workspace (NOT group-tabs) when user wants to save a workspace.',
+    'Use discard-tabs (NOT close-tabs) when user asks to free memory, suspend, or hibernate tabs.',
+    'Use rename-group with the exact groupId from the group list. Include title and/or color as needed.',
+    'Use focus-window with the exact windowId from the window list.',
+    'Use close-by-domain for "close all [site] tabs" requests.',
+    'Use exact tabIds from the tab list. Add https:// to URLs if missing.',
+    'Return empty actions array if nothing to do.',
+];
+
+const MAX_TITLE_CHARS = 60;
+
+export interface PromptTab {
+    tabId: number;
+    windowId: number;
+    title: string;
+    isActive?: boolean;
+    isPinned?: boolean;
+    isMuted?: boolean;
+    isAudible?: boolean;
+    groupId?: number;
+    groupTitle?: string;
+    groupColor?: string;
+}
+
+export interface PromptWindow {
+    windowId: number;
+    tabCount: number;
+    activeTabTitle?: string;
+}
+
+export interface PromptWorkspace {
+    name: string;
+    tabCount: number;
+}
+
+function clip(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Shorten a title: drop a trailing " - Site" that repeats the domain, then cap its length. */
+function shortTitle(title: string, domain: string): string {
+    const site = domain.split('.').slice(-2, -1)[0]?.toLowerCase() ?? '';
+    let t = title.trim().replace(/\s+/g, ' ');
+    const suffix = t.match(/\s+[-|–—·]\s+([^-|–—·]+)$/);
+    if (suffix && site && suffix[1].toLowerCase().replace(/\s+/g, '').includes(site)) t = t.slice(0, suffix.index);
+    return clip(t, MAX_TITLE_CHARS);
+}
+
+/** One tab's line, written under its domain's heading. */
+export function formatTabLine(t: PromptTab, domain: string): string {
+    const group = t.groupId ? ` [group:${t.groupId}:"${clip(t.groupTitle ?? '', MAX_TITLE_CHARS)}"]` : '';
+    const flags = [
+        t.isActive ? '[active]' : '',
+        t.isPinned ? '[pinned]' : '',
+        t.isMuted ? '[muted]' : '',
+        t.isAudible ? '[audible]' : '',
+    ].filter(Boolean).join(' ');
+    return `  [${t.tabId}] "${shortTitle(t.title, domain)}" [win:${t.windowId}]${group}${flags ? ' ' + flags : ''}`;
+}
+
+export interface AgentPromptParts {
+    tabList: string; // tabs grouped by domain, most relevant to the request first
+    tabs: PromptTab[]; // every open tab, for the group list
+    windows: PromptWindow[];
+    workspaces: PromptWorkspace[];
+    now: string;
+    tools?: string; // read-only tools the model may call (extension only)
+}
+
+export function buildAgentPrompt(p: AgentPromptParts): string {
+    const groups = new Map<number, { title: string; color: string; count: number }>();
+    for (const t of p.tabs) {
+        if (!t.groupId) continue;
+        const g = groups.get(t.groupId);
+        if (g) g.count++;
+        else groups.set(t.groupId, { title: t.groupTitle ?? '', color: t.groupColor ?? '', count: 1 });
+    }
+    const groupList = groups.size > 0
+        ? '\n\nTab groups: ' + [...groups.entries()].map(([id, g]) => `[groupId:${id}] "${clip(g.title, MAX_TITLE_CHARS)}" (${g.color}, ${g.count} tabs)`).join(', ')
+        : '';
+    const windowList = p.windows.length > 0
+        ? '\n\nWindows: ' + p.windows.map((w) => `[win:${w.windowId}] (${w.tabCount} tabs${w.activeTabTitle ? `, active: "${clip(w.activeTabTitle, MAX_TITLE_CHARS)}"` : ''})`).join(', ')
+        : '';
+    const workspaceList = p.workspaces.length > 0
+        ? '\n\nSaved workspaces: ' + p.workspaces.map((w) => `"${clip(w.name, MAX_TITLE_CHARS)}" (${w.tabCount} tabs)`).join(', ')
+        : '';
+    const actions = AGENT_ACTIONS
+        .filter((a: AgentActionSpec) => p.tools || !a.needsTools)
+        .map((a: AgentActionSpec) => `- {"type":"${a.type}"${a.fields ? `,${a.fields}` : ''}}${a.hint ? ` // ${a.hint}` : ''}`);
+    const tools = p.tools
+        ? `\n\nTOOLS: if the tab list isn't enough to answer (history, snoozed tabs, workspaces, notes, finding tabs by what they're about), reply with {"tool":"name","args":{...}} instead — ONE tool per reply; its JSON result comes back in the next message. Tools are read-only. Available tools:\n${p.tools}`
+        : '';
+
+    return `You are a browser tab manager AI. The user has these open browser tabs (grouped by domain, most relevant to the request first):\n${p.tabList}${groupList}${windowList}`
+        + '\n\nRespond ONLY with a JSON object with this exact structure: {"message": "short friendly confirmation max 15 words", "actions": [...]}'
+        + `\n\nAvailable action types:\n${actions.join('\n')}${workspaceList}`
+        + `\n\nCurrent time: ${p.now}`
+        + tools
+        + '\n\nThis is a conversation: earlier messages are the user\'s previous requests and your replies. A follow-up like "no, leave the GitHub ones" refines your last plan — reply with the complete corrected action list.'
+        + `\n\nIMPORTANT RULES:\n${AGENT_RULES.map((r, i) => `${i + 1}. ${r}`).join('\n')}`;
+}
@@ -4,11 +4,18 @@ import { describeAction } from '@/lib/agent';
 interface AiAgentPanelProps {
   message: string;
   actions: AgentAction[];
+  issues: string[];
+  toolCalls: string[];
+  turns: { query: string; message: string }[]; // earlier exchanges in this session
   completedCount: number;
+  awaitingConfirm: boolean; // dry run: plan shown, nothing executed yet
+  onConfirm: () => void;
   onDismiss: () => void;
 }
 
-export function AiAgentPanel({ message, actions, completedCount, onDismiss }: AiAgentPanelProps) {
+export function AiAgentPanel({
+  message, actions, issues, toolCalls, turns, completedCount, awaitingConfirm, onConfirm, onDismiss,
+}: AiAgentPanelProps) {
   return (
     <div
       className="mx-3 mb-1"
@@ -23,6 +30,18 @@ export function AiAgentPanel({ message, actions, completedCount, onDismiss }: Ai
           padding: '10px 14px',
         }}
       >
+        {/* Earlier turns of the conversation */}
+        {turns.length > 0 && (
+          <div className="mb-2 pb-2 flex flex-col gap-1" style={{ borderBottom: '1px solid rgba(160,140,255,0.12)' }}>
+            {turns.slice(-4).map((turn, i) => (
+              <div key={i} className="text-[10px] leading-snug truncate">
+                <span style={{ color: 'rgba(255,255,255,0.45)' }}>{turn.query}</span>
+                <span style={{ color: 'rgba(160,140,255,0.55)' }}> → {turn.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Header row: sparkle + message + dismiss */}
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -42,11 +61,18 @@ export function AiAgentPanel({ message, actions, completedCount, onDismiss }: Ai
           </button>
         </div>
 
+        {/* Read-only lookups the agent made before answering */}
+        {toolCalls.length > 0 && (
+          <div className="mt-1 text-[10px]" style={{ color: 'rgba(160,140,255,0.55)' }}>
+            Looked up: {[...new Set(toolCalls)].map((t) => t.replace(/_/g, ' ')).join(', ')}
+          </div>
+        )}
+
         {/* Actions list */}
         {actions.length > 0 && (
           <div className="mt-2 flex flex-col gap-1">
             {actions.map((action, i) => {
-              const done = i < completedCount;
+              const done = !awaitingConfirm && i < completedCount;
               const pending = i >= completedCount;
               return (
                 <div key={i} className="flex items-center gap-2">
@@ -61,7 +87,7 @@ export function AiAgentPanel({ message, actions, completedCount, onDismiss }: Ai
                         width: 12,
                         height: 12,
                         borderColor: pending ? 'rgba(160,140,255,0.4)' : 'rgba(255,255,255,0.2)',
-                        animation: i === completedCount ? 'spin 1s linear infinite' : undefined,
+                        animation: !awaitingConfirm && i === completedCount ? 'spin 1s linear infinite' : undefined,
                       }}
                     />
                   )}
@@ -76,6 +102,35 @@ export function AiAgentPanel({ message, actions, completedCount, onDismiss }: Ai
             })}
           </div>
         )}
+
+        {/* Actions the validator dropped or repaired */}
+        {issues.length > 0 && (
+          <div className="mt-2 flex flex-col gap-0.5">
+            {issues.map((issue, i) => (
+              <span key={i} className="text-[10px]" style={{ color: 'rgba(242,139,130,0.75)' }}>{issue}</span>
+            ))}
+          </div>
+        )}
+
+        {/* Dry-run confirmation */}
+        {awaitingConfirm && (
+          <div className="mt-2.5 flex items-center gap-1.5">
+            <button
+              onClick={onConfirm}
+              className="px-2.5 py-1 rounded-md text-[11px] transition-colors"
+              style={{ background: 'rgba(160,140,255,0.22)', border: '1px solid rgba(160,140,255,0.4)', color: 'rgba(255,255,255,0.85)' }}
+            >
+              Run {actions.length} action{actions.length === 1 ? '' : 's'}
+            </button>
+            <button
+              onClick={onDismiss}
+              className="px-2.5 py-1 rounded-md text-[11px] text-white/45 hover:text-white/70 transition-colors"
+              style={{ border: '1px solid rgba(255,255,255,0.1)' }}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { getTopDomains, type DomainStat } from '@/lib/api-client';
-import { getFrecencyMap } from '@/lib/frecency';
+import { getLocalDomainVisits } from '@/lib/frecency';
+import { getCategories, createCategorizer, type Category } from '@/lib/categories';
 import type { TabInfo } from '@/lib/types';
 
 interface LocalDomainStat { domain: string; visits: number; }
@@ -30,24 +31,12 @@ function findTabForDomain(domain: string, tabs: TabInfo[]): TabInfo | undefined
 export function AnalyticsBar({ tabs = [], onSwitch }: AnalyticsBarProps) {
   const [domains, setDomains] = useState<DomainStat[]>([]);
   const [localDomains, setLocalDomains] = useState<LocalDomainStat[]>([]);
+  const [categorize, setCategorize] = useState<((domain: string) => Category) | null>(null);
 
   useEffect(() => {
     getTopDomains(3).then(setDomains).catch(() => {});
-    getFrecencyMap().then((map) => {
-      const counts = new Map<string, number>();
-      for (const [url, entry] of map) {
-        try {
-          if (url.startsWith('chrome://') || url.startsWith('edge://') || url.startsWith('about:')) continue;
-          const d = new URL(url).hostname.replace('www.', '');
-          if (d) counts.set(d, (counts.get(d) ?? 0) + entry.visitCount);
-        } catch { /* ignore */ }
-      }
-      const sorted = [...counts.entries()]
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([domain, visits]) => ({ domain, visits }));
-      setLocalDomains(sorted);
-    }).catch(() => {});
+    getLocalDomainVisits().then((d) => setLocalDomains(d.slice(0, 3))).catch(() => {});
+    getCategories().then((c) => setCategorize(() => createCategorizer(c))).catch(() => {});
   }, []);
 
   const showCloud = domains.length > 0;
@@ -67,6 +56,7 @@ export function AnalyticsBar({ tabs = [], onSwitch }: AnalyticsBarProps) {
           <button
             className="text-[10px] text-white/35 truncate max-w-[160px] hover:text-white/65 transition-colors cursor-pointer"
             style={{ background: 'none', border: 'none', padding: 0 }}
+            title={categorize ? `${item.key} · ${categorize(item.key).name}` : item.key}
             onClick={() => {
               const match = findTabForDomain(item.key, tabs);
               if (match) {
@@ -18,6 +18,10 @@ import { checkHealth } from '@/lib/api-client';
 import { getStoredTokens, type TokenSet } from '@/lib/auth';
 import { AiAgentPanel, AiThinkingBar } from './AiAgentPanel';
 import type { AgentResult, AgentAction } from '@/lib/agent';
+import type { ChatMessage } from '@/lib/llm';
+import type { SnoozedTab } from '@/lib/snooze';
+import { getWorkspaces, deleteWorkspace } from '@/lib/workspaces';
+import { isRestorableUrl } from '@/lib/workspace-capture';
 
 export function HudOverlay() {
   const s = useHudState();
@@ -31,6 +35,10 @@ export function HudOverlay() {
   const [aiPending, setAiPending] = useState(false);
   const [agentResult, setAgentResult] = useState<AgentResult | null>(null);
   const [completedCount, setCompletedCount] = useState(0);
+  const [awaitingConfirm, setAwaitingConfirm] = useState(false);
+  // Conversation for the current AI session: sent back with each follow-up, shown as earlier turns
+  const [agentHistory, setAgentHistory] = useState<ChatMessage[]>([]);
+  const [agentTurns, setAgentTurns] = useState<{ query: string; message: string }[]>([]);
   const [wsRefreshKey, setWsRefreshKey] = useState(0);
   const promptHistoryRef = useRef<string[]>([]);
 
@@ -141,6 +149,13 @@ export function HudOverlay() {
     openCheatSheet: () => s.setShowCheatSheet(true),
   });
 
+  // Leaving AI mode ends the conversation
+  useEffect(() => {
+    if (aiMode) return;
+    setAgentHistory([]);
+    setAgentTurns([]);
+  }, [aiMode]);
+
   const executeAction = useCallback(async (action: AgentAction) => {
     switch (action.type) {
       case 'group-tabs':
@@ -220,24 +235,121 @@ export function HudOverlay() {
         }
         break;
       }
+      case 'snooze-tab':
+        await a.snoozeTab(action.tabId, Date.parse(action.until) - Date.now());
+        break;
+      case 'cancel-snooze': {
+        const snoozedRes = await chrome.runtime.sendMessage({ type: 'get-snoozed' });
+        const entry = (snoozedRes?.snoozedTabs as SnoozedTab[] | undefined)?.find((t) => t.url === action.url);
+        if (entry) {
+          await chrome.runtime.sendMessage({ type: 'cancel-snooze', payload: { url: entry.url, wakeAt: entry.wakeAt } });
+          await chrome.runtime.sendMessage({ type: 'open-url', payload: { url: entry.url } });
+        }
+        break;
+      }
+      case 'set-note': {
+        const tab = s.tabs.find((t) => t.tabId === action.tabId);
+        if (tab) await a.saveNote(tab.tabId, tab.url, action.note);
+        break;
+      }
+      case 'bookmark-tabs':
+        for (const tabId of action.tabIds) {
+          const tab = s.tabs.find((t) => t.tabId === tabId);
+          if (tab) await chrome.runtime.sendMessage({ type: 'bookmark-tab', payload: { url: tab.url, title: tab.title, folder: action.folder } });
+        }
+        break;
+      case 'restore-workspace': {
+        const ws = (await getWorkspaces()).find((w) => w.name === action.name);
+        const tabs = ws?.tabs.filter((t) => isRestorableUrl(t.url)) ?? [];
+        if (ws && tabs.length > 0) {
+          await chrome.runtime.sendMessage({
+            type: 'restore-workspace', workspaceId: ws.id, urls: tabs.map((t) => t.url), groups: tabs, tabGroups: ws.groups,
+            mode: action.mode ?? 'new-window', windowId: s.currentWindowId,
+          });
+        }
+        break;
+      }
+      case 'delete-workspace': {
+        const ws = (await getWorkspaces()).find((w) => w.name === action.name);
+        if (ws) {
+          await deleteWorkspace(ws.id);
+          setWsRefreshKey((k) => k + 1);
+        }
+        break;
+      }
+      case 'sort-tabs':
+        await chrome.runtime.sendMessage({ type: 'sort-tabs', payload: { windowId: action.windowId, by: action.by } });
+        break;
+      case 'collapse-group':
+        await chrome.runtime.sendMessage({ type: 'rename-group', payload: { groupId: action.groupId, collapsed: action.collapsed } });
+        break;
     }
   }, [a, s]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Run a validated plan one action at a time; a failing action doesn't stop the rest.
+  // The background records an inverse after each action so the batch can be undone as one.
+  const runAgentPlan = useCallback(async (result: AgentResult) => {
+    setAwaitingConfirm(false);
+    const begin = await chrome.runtime.sendMessage({ type: 'agent-undo-begin' }).catch(() => null);
+    const batchId: string | undefined = begin?.batchId;
+    const failed: string[] = [];
+    for (let i = 0; i < result.actions.length; i++) {
+      try {
+        await executeAction(result.actions[i]);
+      } catch {
+        failed.push(result.actions[i].type);
+      }
+      if (batchId) {
+        await chrome.runtime.sendMessage({ type: 'agent-undo-record', payload: { batchId, action: result.actions[i] } }).catch(() => {});
+      }
+      setCompletedCount(i + 1);
+    }
+    if (batchId) {
+      const commit = await chrome.runtime.sendMessage({ type: 'agent-undo-commit', payload: { batchId } }).catch(() => null);
+      if (commit?.undoable) {
+        const count = result.actions.length;
+        s.setUndoToast({
+          message: `AI agent ran ${count} action${count === 1 ? '' : 's'}`,
+          duration: 10000,
+          onUndo: () => {
+            chrome.runtime.sendMessage({ type: 'undo-agent-batch', payload: { batchId } })
+              .then(() => s.fetchTabs())
+              .catch(() => {});
+          },
+        });
+      }
+    }
+    if (failed.length > 0) {
+      setAgentResult((prev) => prev ? { ...prev, issues: [...(prev.issues ?? []), ...failed.map((t) => `Failed: ${t}`)] } : prev);
+    }
+    await s.fetchTabs();
+    chrome.runtime.sendMessage({ type: 'get-windows' }).then((windowsRes) => {
+      if (windowsRes?.windows) s.setOtherWindows(windowsRes.windows);
+    }).catch(() => {});
+    setTimeout(() => {
+      setAgentResult(null);
+      setAiMode(false);
+    }, failed.length > 0 ? 5000 : 2500);
+  }, [s, executeAction]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const handleAiSubmit = useCallback(async (query: string) => {
     // Save to prompt history (newest first, max 50, deduped, persisted across tabs)
     promptHistoryRef.current = [query, ...promptHistoryRef.current.filter((q) => q !== query).slice(0, 49)];
     chrome.storage.local.set({ tabflow_prompt_history: promptHistoryRef.current }).catch(() => {});
+    // A follow-up replaces the plan on screen; the previous exchange moves up into the trail
+    if (agentResult) setAgentTurns((prev) => [...prev, { query: agentResult.query ?? '', message: agentResult.message }]);
     setAiPending(true);
     setAgentResult(null);
     setCompletedCount(0);
+    setAwaitingConfirm(false);
     setAiQuery('');
     try {
       const res = await chrome.runtime.sendMessage({
         type: 'ai-agent',
-        payload: { query, tabs: s.tabs, windows: s.otherWindows },
+        payload: { query, history: agentHistory, tabs: s.tabs, windows: s.otherWindows },
       });
       if (res?.error === 'no-key') {
-        setAgentResult({ message: 'Add your Groq API key in settings to use the AI agent.', actions: [] });
+        setAgentResult({ message: 'Add an API key for your AI provider in settings to use the AI agent.', actions: [] });
         setAiPending(false);
         return;
       }
@@ -246,26 +358,27 @@ export function HudOverlay() {
         setAiPending(false);
         return;
       }
-      const result: AgentResult = { message: res.message, actions: res.actions ?? [] };
+      if (res?.history) setAgentHistory(res.history);
+      const result: AgentResult = {
+        query,
+        message: res.message,
+        actions: res.actions ?? [],
+        issues: res.issues ?? [],
+        toolCalls: res.toolCalls ?? [],
+      };
       setAgentResult(result);
       setAiPending(false);
-      for (let i = 0; i < result.actions.length; i++) {
-        await executeAction(result.actions[i]);
-        setCompletedCount(i + 1);
+      // Dry run: show the plan and wait for the user to confirm it
+      if (s.settings?.aiDryRun !== false && result.actions.length > 0) {
+        setAwaitingConfirm(true);
+        return;
       }
-      await s.fetchTabs();
-      chrome.runtime.sendMessage({ type: 'get-windows' }).then((windowsRes) => {
-        if (windowsRes?.windows) s.setOtherWindows(windowsRes.windows);
-      }).catch(() => {});
-      setTimeout(() => {
-        setAgentResult(null);
-        setAiMode(false);
-      }, 2500);
+      await runAgentPlan(result);
     } catch {
       setAgentResult({ message: 'Something went wrong. Please try again.', actions: [] });
       setAiPending(false);
     }
-  }, [s, executeAction]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [s, runAgentPlan, agentResult, agentHistory]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const handleSettingChange = useCallback(async (patch: Partial<TabFlowSettings>) => {
     const updated = await saveSettings(patch);
@@ -409,14 +522,19 @@ export function HudOverlay() {
               return next;
             })}
           />
-          <WorkspaceSection key={wsRefreshKey} tabs={s.displayTabs} onRestore={s.hide} authUser={authUser} onRequestSignIn={() => setShowSettings(true)} />
+          <WorkspaceSection key={wsRefreshKey} onRestore={s.hide} authUser={authUser} onRequestSignIn={() => setShowSettings(true)} />
 
           {agentResult && (
             <AiAgentPanel
               message={agentResult.message}
               actions={agentResult.actions}
+              issues={agentResult.issues ?? []}
+              toolCalls={agentResult.toolCalls ?? []}
+              turns={agentTurns}
               completedCount={completedCount}
-              onDismiss={() => { setAgentResult(null); setAiMode(false); }}
+              awaitingConfirm={awaitingConfirm}
+              onConfirm={() => runAgentPlan(agentResult)}
+              onDismiss={() => { setAgentResult(null); setAwaitingConfirm(false); setAiMode(false); }}
             />
           )}
           {aiPending && <AiThinkingBar />}
@@ -445,8 +563,13 @@ export function HudOverlay() {
         <UndoToast
           key={s.undoToast.message}
           message={s.undoToast.message}
-          onUndo={() => { a.reopenLastClosed(); s.setUndoToast(null); }}
+          onUndo={() => {
+            if (s.undoToast?.onUndo) s.undoToast.onUndo();
+            else a.reopenLastClosed();
+            s.setUndoToast(null);
+          }}
           onDismiss={() => s.setUndoToast(null)}
+          duration={s.undoToast.duration}
         />
       )}
     </div>
@@ -1,5 +1,9 @@
+import { useState, useEffect } from 'react';
 import type { TabFlowSettings } from '@/lib/settings';
+import { LLM_PROVIDERS, resolveLlmProvider, type LlmProviderId, type LlmProviderConfig } from '@/lib/llm';
 import type { TokenSet } from '@/lib/auth';
+import { getAgentUsage, ApiError, type AgentUsage } from '@/lib/api-client';
+import { normalizeDomain } from '@/lib/page-content';
 
 interface SettingsPanelProps {
   authUser: TokenSet | null;
@@ -71,8 +75,153 @@ const SUSPEND_MINUTES_OPTIONS = [
   { label: '4h',  value: 240 },
 ];
 
+const TOKEN_BUDGET_OPTIONS = [
+  { label: '3k · small local models', value: 3000 },
+  { label: '6k', value: 6000 },
+  { label: '12k', value: 12000 },
+  { label: '32k · large context', value: 32000 },
+];
+
 const DIVIDER = { borderBottom: '1px solid rgba(255,255,255,0.06)' };
 
+const FIELD_STYLE = {
+  background: 'rgba(255,255,255,0.05)',
+  border: '1px solid rgba(255,255,255,0.09)',
+};
+
+const PROVIDER_KEY_LINKS: Partial<Record<LlmProviderId, string>> = {
+  groq: 'https://console.groq.com/keys',
+  anthropic: 'https://console.anthropic.com/settings/keys',
+  gemini: 'https://aistudio.google.com/apikey',
+};
+
+/** Today's usage of the server-managed agent against its quotas. */
+function ServerAgentUsage() {
+  const [state, setState] = useState<{ usage: AgentUsage; model: string | null } | null | 'error' | 'sign-in'>(null);
+  useEffect(() => {
+    getAgentUsage().then(setState).catch((err) => setState(err instanceof ApiError && err.status === 401 ? 'sign-in' : 'error'));
+  }, []);
+
+  let text = 'Checking the TabFlow server…';
+  if (state === 'error') text = 'Couldn\'t reach the TabFlow server';
+  else if (state === 'sign-in') text = 'Sign in to TabFlow to use the server\'s AI agent';
+  else if (state && !state.model) text = 'The AI agent isn\'t configured on this server';
+  else if (state) {
+    const { usage } = state;
+    text = `${state.model} · today ${usage.requests}/${usage.requestLimit} requests, ${Math.round(usage.tokens / 1000)}k/${Math.round(usage.tokenLimit / 1000)}k tokens`;
+  }
+  return <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.55)' }}>{text} · Type @ in search to use</span>;
+}
+
+/** Provider picker plus base URL / model / key for the selected provider. Blank fields use the defaults. */
+function AiProviderSettings({
+  settings,
+  onSettingChange,
+}: {
+  settings: TabFlowSettings;
+  onSettingChange: (patch: Partial<TabFlowSettings>) => void;
+}) {
+  const { id, info, config } = resolveLlmProvider(settings);
+  const overrides = settings.aiProviders[id] ?? {};
+  const keyLink = PROVIDER_KEY_LINKS[id];
+
+  const setField = (field: keyof LlmProviderConfig, value: string) => {
+    onSettingChange({ aiProviders: { ...settings.aiProviders, [id]: { ...overrides, [field]: value } } });
+  };
+  const inputClass = 'w-full rounded-lg px-2.5 py-1.5 text-[12px] text-white/65 placeholder-white/22 outline-none';
+
+  return (
+    <div className="flex flex-col gap-1 mt-1.5">
+      <select
+        value={id}
+        onChange={(e) => onSettingChange({ aiProvider: e.target.value as LlmProviderId })}
+        className={inputClass}
+        style={FIELD_STYLE}
+      >
+        {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map((p) => (
+          <option key={p} value={p} style={{ background: '#10101c' }}>{LLM_PROVIDERS[p].label}</option>
+        ))}
+      </select>
+      {id === 'tabflow' ? <ServerAgentUsage /> : (
+        <>
+          <input
+            type="text"
+            value={overrides.baseUrl ?? ''}
+            onChange={(e) => setField('baseUrl', e.target.value)}
+            placeholder={info.defaults.baseUrl}
+            className={inputClass}
+            style={FIELD_STYLE}
+          />
+          <input
+            type="text"
+            value={overrides.model ?? ''}
+            onChange={(e) => setField('model', e.target.value)}
+            placeholder={info.defaults.model}
+            className={inputClass}
+            style={FIELD_STYLE}
+          />
+          <input
+            type="password"
+            value={overrides.apiKey ?? (id === 'groq' ? config.apiKey : '')}
+            onChange={(e) => setField('apiKey', e.target.value)}
+            placeholder={info.keyRequired ? `${info.label} API key…` : 'API key (optional)'}
+            className={inputClass}
+            style={FIELD_STYLE}
+          />
+          <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
+            {keyLink ? (
+              <>
+                Keys at{' '}
+                <a
+                  href={keyLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:opacity-80"
+                  style={{ color: 'rgba(255,255,255,0.70)' }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {new URL(keyLink).hostname}
+                </a>
+              </>
+            ) : (
+              'Tabs stay on your server — for Ollama, allow the extension with OLLAMA_ORIGINS=chrome-extension://*'
+            )}
+            {' '}· Type @ in search to use
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Comma-separated opt-out list; saved (normalized) on blur or Enter. */
+function ExcludedDomainsInput({
+  domains,
+  onChange,
+}: {
+  domains: string[];
+  onChange: (domains: string[]) => void;
+}) {
+  const [draft, setDraft] = useState(domains.join(', '));
+  const commit = () => {
+    const next = [...new Set(draft.split(/[,\s]+/).filter(Boolean).map(normalizeDomain))];
+    setDraft(next.join(', '));
+    onChange(next);
+  };
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder="Never read: bank.com, mail.google.com…"
+      className="w-full rounded-lg px-2.5 py-1.5 mb-1 text-[12px] text-white/65 placeholder-white/22 outline-none"
+      style={FIELD_STYLE}
+    />
+  );
+}
+
 export function SettingsPanel({
   authUser,
   authLoading,
@@ -322,37 +471,56 @@ export function SettingsPanel({
             )}
           </div>
 
+          {/* Semantic search section */}
+          <div className="py-2.5" style={DIVIDER}>
+            <SectionHeader>Semantic Search</SectionHeader>
+            {settings !== null && (
+              <>
+                <Toggle
+                  label="Index page content"
+                  description="Off by default. Sends a summary of each page's text (description, headings, main text) out of the browser to the TabFlow server and its embedding provider, so ai: search finds tabs by content"
+                  checked={settings.pageContentIndexing}
+                  onChange={(v) => onSettingChange({ pageContentIndexing: v })}
+                />
+                {settings.pageContentIndexing && (
+                  <ExcludedDomainsInput
+                    domains={settings.pageContentExcludedDomains}
+                    onChange={(d) => onSettingChange({ pageContentExcludedDomains: d })}
+                  />
+                )}
+              </>
+            )}
+          </div>
+
           {/* AI Agent section */}
           <div className="py-2.5">
             <SectionHeader>AI Agent</SectionHeader>
             {settings !== null && (
-              <div className="flex flex-col gap-1 mt-1.5">
-                <input
-                  type="password"
-                  value={settings.groqApiKey ?? ''}
-                  onChange={(e) => onSettingChange({ groqApiKey: e.target.value })}
-                  placeholder="Groq API key…"
-                  className="w-full rounded-lg px-2.5 py-1.5 text-[12px] text-white/65 placeholder-white/22 outline-none"
-                  style={{
-                    background: 'rgba(255,255,255,0.05)',
-                    border: '1px solid rgba(255,255,255,0.09)',
-                  }}
+              <>
+                <AiProviderSettings settings={settings} onSettingChange={onSettingChange} />
+                <Toggle
+                  label="Preview before running"
+                  description="Show the agent's plan and wait for you to confirm it"
+                  checked={settings.aiDryRun}
+                  onChange={(v) => onSettingChange({ aiDryRun: v })}
                 />
-                <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
-                  Free at{' '}
-                  <a
-                    href="https://console.groq.com/keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="underline hover:opacity-80"
-                    style={{ color: 'rgba(255,255,255,0.70)' }}
-                    onClick={(e) => e.stopPropagation()}
+                <div className="flex items-center justify-between py-2 gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[13px] text-white/75">Prompt budget</div>
+                    <div className="text-[11px] text-white/40 mt-0.5">Most relevant tabs are sent first; the rest are summarized</div>
+                  </div>
+                  <select
+                    value={settings.aiTokenBudget}
+                    onChange={(e) => onSettingChange({ aiTokenBudget: Number(e.target.value) })}
+                    className="shrink-0 rounded-lg px-2 py-1 text-[12px] text-white/65 outline-none"
+                    style={FIELD_STYLE}
                   >
-                    console.groq.com/keys
-                  </a>
-                  {' '}· Type @ in search to use
-                </span>
-              </div>
+                    {TOKEN_BUDGET_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value} style={{ background: '#10101c' }}>{o.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
             )}
           </div>
         </div>
@@ -1,44 +1,72 @@
 import { useState, useRef, useEffect } from 'react';
-import { getWorkspaces, saveWorkspace, updateWorkspace, deleteWorkspace, type Workspace } from '@/lib/workspaces';
-import type { TabInfo } from '@/lib/types';
+import {
+  getWorkspaces, saveWorkspace, updateWorkspace, deleteWorkspace,
+  getWorkspaceVersions, restoreWorkspaceVersion, sameWorkspaceContent,
+  type Workspace, type WorkspaceVersion,
+} from '@/lib/workspaces';
+import { getWorkspaceVersions as getCloudWorkspaceVersions } from '@/lib/api-client';
+import type { WorkspaceDiff, RestoreMode } from '@/lib/workspace-diff';
+import { isRestorableUrl } from '@/lib/workspace-capture';
+import { getLiveBindings, type LiveBinding } from '@/lib/live-workspaces';
 import type { TokenSet } from '@/lib/auth';
 
 interface WorkspaceSectionProps {
-  tabs: TabInfo[];
   onRestore?: () => void;
   authUser: TokenSet | null;
   onRequestSignIn?: () => void;
 }
 
-export function WorkspaceSection({ tabs, onRestore, authUser, onRequestSignIn }: WorkspaceSectionProps) {
+export function WorkspaceSection({ onRestore, authUser, onRequestSignIn }: WorkspaceSectionProps) {
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [saving, setSaving] = useState(false);
   const [nameInput, setNameInput] = useState('');
   const [showInput, setShowInput] = useState(false);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<WorkspaceVersion[]>([]);
+  const [preview, setPreview] = useState<{ ws: Workspace; diff: WorkspaceDiff; windowId: number } | null>(null);
+  const [bindings, setBindings] = useState<Record<string, LiveBinding>>({});
+  const [liveId, setLiveId] = useState<string | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const versionsFor = useRef<string | null>(null); // workspace whose versions are being loaded
 
   useEffect(() => {
     if (!authUser) return;
     getWorkspaces().then(setWorkspaces).catch(() => {});
+    getLiveBindings().then(setBindings).catch(() => {});
+    // Pull in workspaces saved on other devices, then refresh if anything arrived
+    chrome.runtime.sendMessage({ type: 'sync-workspaces' }).then((res) => {
+      if (res?.result && (res.result.pulled > 0 || res.result.deleted > 0)) {
+        getWorkspaces().then(setWorkspaces).catch(() => {});
+      }
+    }).catch(() => {});
   }, [authUser]);
 
+  const requestSync = () => {
+    chrome.runtime.sendMessage({ type: 'sync-workspaces' }).catch(() => {});
+  };
+
   useEffect(() => {
     if (showInput) inputRef.current?.focus();
   }, [showInput]);
 
-  const buildTabData = (): Workspace['tabs'] =>
-    tabs
-      .filter((t) => t.url && !t.url.startsWith('chrome://') && !t.url.startsWith('chrome-extension://') && !t.url.startsWith('about:'))
-      .map((t) => ({ url: t.url, title: t.title, faviconUrl: t.faviconUrl ?? '', groupTitle: t.groupTitle, groupColor: t.groupColor }));
+  // Tab order, pinned state, groups and windows come from the background's live snapshot
+  const captureTabs = async (): Promise<Pick<Workspace, 'tabs' | 'groups'>> => {
+    const res = await chrome.runtime.sendMessage({ type: 'capture-workspace', payload: { scope: 'all' } });
+    if (!res?.success) throw new Error(res?.error ?? 'Capture failed');
+    return { tabs: res.tabs, groups: res.groups };
+  };
 
   const handleSave = async () => {
     const name = nameInput.trim();
     if (!name) return;
     setSaving(true);
     try {
-      const ws = await saveWorkspace(name, buildTabData());
+      const { tabs, groups } = await captureTabs();
+      const ws = await saveWorkspace(name, tabs, groups);
       setWorkspaces((prev) => [ws, ...prev]);
+      requestSync();
       setNameInput('');
       setShowInput(false);
     } catch { /* ignore */ } finally {
@@ -46,26 +74,130 @@ export function WorkspaceSection({ tabs, onRestore, authUser, onRequestSignIn }:
     }
   };
 
+  // Live workspaces are created by the background so it can bind them to this window
+  const handleSaveLive = async () => {
+    const name = nameInput.trim();
+    if (!name) return;
+    setSaving(true);
+    const res = await chrome.runtime.sendMessage({ type: 'create-workspace', payload: { name, live: true } }).catch(() => null);
+    setSaving(false);
+    if (res?.success) {
+      setNameInput('');
+      setShowInput(false);
+    }
+  };
+
   const handleUpdate = async (id: string) => {
-    const updated = await updateWorkspace(id, buildTabData()).catch(() => null);
-    if (updated) setWorkspaces((prev) => prev.map((w) => w.id === id ? updated : w));
+    const updated = await captureTabs()
+      .then(({ tabs, groups }) => updateWorkspace(id, tabs, groups))
+      .catch(() => null);
+    if (updated) {
+      setWorkspaces((prev) => prev.map((w) => w.id === id ? updated : w));
+      requestSync();
+    }
   };
 
-  const handleRestore = (ws: Workspace) => {
-    const urls = ws.tabs
-      .map((t) => t.url)
-      .filter((u) => u && !u.startsWith('chrome://') && !u.startsWith('chrome-extension://') && !u.startsWith('about:'));
-    if (urls.length > 0) {
-      chrome.runtime.sendMessage({ type: 'restore-workspace', urls, groups: ws.tabs });
+  const restorableTabs = (ws: Workspace) => ws.tabs.filter((t) => isRestorableUrl(t.url));
+
+  const restore = (ws: Workspace, mode: RestoreMode, windowId?: number) => {
+    const tabs = restorableTabs(ws);
+    if (tabs.length > 0) {
+      chrome.runtime.sendMessage({
+        type: 'restore-workspace', workspaceId: ws.id, urls: tabs.map((t) => t.url), groups: tabs, tabGroups: ws.groups, mode, windowId,
+      });
     }
+    setPreview(null);
     onRestore?.();
   };
 
+  // Show what's already open before restoring, so restoring twice doesn't duplicate tabs
+  const handleRestore = async (ws: Workspace) => {
+    if (preview?.ws.id === ws.id) { setPreview(null); return; }
+    const res = await chrome.runtime.sendMessage({ type: 'diff-workspace', payload: { tabs: restorableTabs(ws) } }).catch(() => null);
+    if (!res?.success) { restore(ws, 'new-window'); return; }
+    setHistoryId(null);
+    setLiveId(null);
+    setPreview({ ws, diff: res.diff, windowId: res.windowId });
+  };
+
   const handleDelete = async (id: string) => {
     await deleteWorkspace(id).catch(() => {});
+    if (bindings[id]) await chrome.runtime.sendMessage({ type: 'unbind-live-workspace', payload: { workspaceId: id } }).catch(() => {});
     setWorkspaces((prev) => prev.filter((w) => w.id !== id));
+    if (historyId === id) setHistoryId(null);
+    if (preview?.ws.id === id) setPreview(null);
+    if (liveId === id) setLiveId(null);
+    requestSync();
   };
 
+  const toggleLive = (id: string) => {
+    setLiveError(null);
+    if (liveId === id) { setLiveId(null); return; }
+    setPreview(null);
+    setHistoryId(null);
+    setLiveId(id);
+  };
+
+  const handleBind = async (id: string, scope: 'window' | 'group') => {
+    const res = await chrome.runtime.sendMessage({ type: 'bind-live-workspace', payload: { workspaceId: id, scope } }).catch(() => null);
+    if (!res?.success) {
+      setLiveError(res?.error === 'not-in-group' ? 'This tab isn\'t in a tab group' : 'Couldn\'t start live saving');
+      return;
+    }
+    setBindings((prev) => ({ ...prev, [id]: res.binding }));
+    getWorkspaces().then(setWorkspaces).catch(() => {});
+    setLiveId(null);
+    requestSync();
+  };
+
+  const handleUnbind = async (id: string) => {
+    await chrome.runtime.sendMessage({ type: 'unbind-live-workspace', payload: { workspaceId: id } }).catch(() => {});
+    setBindings((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setLiveId(null);
+  };
+
+  const toggleHistory = async (id: string) => {
+    if (historyId === id) { setHistoryId(null); versionsFor.current = null; return; }
+    setPreview(null);
+    setLiveId(null);
+    setHistoryId(id);
+    setVersions([]);
+    versionsFor.current = id;
+    // Ignore responses for a workspace whose history was closed or switched away from
+    const local = await getWorkspaceVersions(id).catch(() => []);
+    if (versionsFor.current !== id) return;
+    setVersions(local);
+    // Versions saved on other devices only exist on the server
+    const cloud = await getCloudWorkspaceVersions(id).catch(() => []);
+    if (versionsFor.current !== id) return;
+    const extra = cloud
+      .filter((c) => !local.some((v) => sameWorkspaceContent(v, c)))
+      .map((c) => ({
+        id: c.id,
+        name: c.name,
+        tabs: c.tabs.map((t) => ({ ...t, faviconUrl: t.faviconUrl ?? '' })),
+        groups: c.groups ?? undefined,
+        savedAt: Date.parse(c.createdAt),
+      }));
+    if (extra.length > 0) setVersions([...local, ...extra].sort((a, b) => b.savedAt - a.savedAt));
+  };
+
+  const handleRestoreVersion = async (id: string, version: WorkspaceVersion) => {
+    const restored = await restoreWorkspaceVersion(id, version).catch(() => null);
+    if (!restored) return;
+    setWorkspaces((prev) => prev.map((w) => w.id === id ? restored : w));
+    const saved = await getWorkspaceVersions(id);
+    if (versionsFor.current === id) setVersions(saved);
+    requestSync();
+  };
+
+  const historyWorkspace = workspaces.find((w) => w.id === historyId) ?? null;
+  const liveWorkspace = workspaces.find((w) => w.id === liveId) ?? null;
+
   if (!authUser) {
     return (
       <div
@@ -91,136 +223,402 @@ export function WorkspaceSection({ tabs, onRestore, authUser, onRequestSignIn }:
   }
 
   return (
-    <div
-      className="flex items-center gap-1.5 px-3 py-1.5 shrink-0 overflow-x-auto"
-      style={{ borderTop: '1px solid rgba(255,255,255,0.04)', background: 'rgba(0,0,0,0.18)' }}
-    >
-      <span className="text-[9px] text-white/20 uppercase tracking-wider shrink-0 mr-1">Workspaces</span>
-
-      {/* Workspace chips */}
-      {workspaces.map((ws) => {
-        const isHovered = hoveredId === ws.id;
-        return (
-          <div
-            key={ws.id}
-            className="flex items-stretch shrink-0 rounded-md overflow-hidden"
-            style={{
-              height: 26,
-              background: isHovered ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.04)',
-              border: `1px solid ${isHovered ? 'rgba(255,255,255,0.16)' : 'rgba(255,255,255,0.08)'}`,
-              transition: 'background 150ms, border-color 150ms',
-            }}
-            onMouseEnter={() => setHoveredId(ws.id)}
-            onMouseLeave={() => setHoveredId(null)}
-          >
-            {/* Restore button */}
+    <div className="shrink-0">
+      {preview && (
+        <RestorePreview
+          workspace={preview.ws}
+          diff={preview.diff}
+          onRestore={(mode) => restore(preview.ws, mode, preview.windowId)}
+          onClose={() => setPreview(null)}
+        />
+      )}
+      {historyWorkspace && (
+        <WorkspaceHistory
+          workspace={historyWorkspace}
+          versions={versions}
+          onRestore={(v) => handleRestoreVersion(historyWorkspace.id, v)}
+          onClose={() => setHistoryId(null)}
+        />
+      )}
+      {liveWorkspace && (
+        <LivePanel
+          workspace={liveWorkspace}
+          binding={bindings[liveWorkspace.id] ?? null}
+          error={liveError}
+          onBind={(scope) => handleBind(liveWorkspace.id, scope)}
+          onUnbind={() => handleUnbind(liveWorkspace.id)}
+          onClose={() => setLiveId(null)}
+        />
+      )}
+      <div
+        className="flex items-center gap-1.5 px-3 py-1.5 overflow-x-auto"
+        style={{ borderTop: '1px solid rgba(255,255,255,0.04)', background: 'rgba(0,0,0,0.18)' }}
+      >
+        <span className="text-[9px] text-white/20 uppercase tracking-wider shrink-0 mr-1">Workspaces</span>
+
+        {/* Workspace chips */}
+        {workspaces.map((ws) => {
+          const isHovered = hoveredId === ws.id;
+          const binding = bindings[ws.id];
+          const attached = !!binding && binding.windowId !== null;
+          return (
+            <div
+              key={ws.id}
+              className="flex items-stretch shrink-0 rounded-md overflow-hidden"
+              style={{
+                height: 26,
+                background: isHovered ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.04)',
+                border: `1px solid ${attached ? 'rgba(129,201,149,0.35)' : isHovered ? 'rgba(255,255,255,0.16)' : 'rgba(255,255,255,0.08)'}`,
+                transition: 'background 150ms, border-color 150ms',
+              }}
+              onMouseEnter={() => setHoveredId(ws.id)}
+              onMouseLeave={() => setHoveredId(null)}
+            >
+              {/* Restore button */}
+              <button
+                className="flex items-center gap-2 px-2.5"
+                style={{ outline: 'none', cursor: 'pointer' }}
+                onClick={() => handleRestore(ws)}
+                title={`Restore "${ws.name}" (${ws.tabs.length} tabs)`}
+              >
+                {/* Live marker — green while saving from its window/group, grey once that's closed */}
+                {binding && (
+                  <span
+                    className="text-[8px] font-semibold tracking-wider shrink-0"
+                    style={{ color: attached ? '#81c995' : 'rgba(255,255,255,0.3)' }}
+                    title={attached
+                      ? `Live — saved automatically from its ${binding.kind === 'group' ? 'tab group' : 'window'}`
+                      : 'Live (paused) — its window was closed; restore it in a new window to resume'}
+                  >
+                    {attached ? '● LIVE' : '○ LIVE'}
+                  </span>
+                )}
+                {/* Favicon stack */}
+                <div className="flex -space-x-1 shrink-0">
+                  {ws.tabs.slice(0, 3).map((t, i) => (
+                    <div key={i} className="w-3 h-3 rounded-sm bg-white/10 border border-white/[0.06] overflow-hidden shrink-0">
+                      {t.faviconUrl && <img src={t.faviconUrl} alt="" className="w-full h-full object-cover" />}
+                    </div>
+                  ))}
+                </div>
+                <span className="text-[11px] font-medium" style={{ color: 'rgba(255,255,255,0.65)' }}>{ws.name}</span>
+                <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.25)' }}>{ws.tabs.length}</span>
+              </button>
+
+              {/* Update button */}
+              <button
+                className="flex items-center justify-center px-1.5"
+                style={{
+                  borderLeft: '1px solid rgba(255,255,255,0.06)',
+                  color: 'rgba(255,255,255,0.2)',
+                  outline: 'none',
+                  cursor: 'pointer',
+                }}
+                onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#81c995'; (e.currentTarget as HTMLElement).style.background = 'rgba(129,201,149,0.12)'; }}
+                onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
+                onClick={() => handleUpdate(ws.id)}
+                title={`Update "${ws.name}" with current tabs`}
+              >
+                <svg width="9" height="9" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M23 4v6h-6M1 20v-6h6" />
+                  <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15" />
+                </svg>
+              </button>
+
+              {/* Live button */}
+              <button
+                className="flex items-center justify-center px-1.5"
+                style={{
+                  borderLeft: '1px solid rgba(255,255,255,0.06)',
+                  color: liveId === ws.id ? '#81c995' : 'rgba(255,255,255,0.2)',
+                  outline: 'none',
+                  cursor: 'pointer',
+                }}
+                onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#81c995'; (e.currentTarget as HTMLElement).style.background = 'rgba(129,201,149,0.12)'; }}
+                onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = liveId === ws.id ? '#81c995' : 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
+                onClick={() => toggleLive(ws.id)}
+                title={binding ? `Live saving for "${ws.name}"` : `Keep "${ws.name}" saved automatically`}
+              >
+                <svg width="9" height="9" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <circle cx="12" cy="12" r="2" />
+                  <path d="M16.24 7.76a6 6 0 010 8.49M7.76 16.24a6 6 0 010-8.49" />
+                </svg>
+              </button>
+
+              {/* History button */}
+              <button
+                className="flex items-center justify-center px-1.5"
+                style={{
+                  borderLeft: '1px solid rgba(255,255,255,0.06)',
+                  color: historyId === ws.id ? '#8ab4f8' : 'rgba(255,255,255,0.2)',
+                  outline: 'none',
+                  cursor: 'pointer',
+                }}
+                onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#8ab4f8'; (e.currentTarget as HTMLElement).style.background = 'rgba(138,180,248,0.12)'; }}
+                onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = historyId === ws.id ? '#8ab4f8' : 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
+                onClick={() => toggleHistory(ws.id)}
+                title={`History of "${ws.name}"`}
+              >
+                <svg width="9" height="9" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <circle cx="12" cy="12" r="10" />
+                  <path d="M12 6v6l4 2" />
+                </svg>
+              </button>
+
+              {/* Delete button */}
+              <button
+                className="flex items-center justify-center px-1.5"
+                style={{
+                  borderLeft: '1px solid rgba(255,255,255,0.06)',
+                  color: 'rgba(255,255,255,0.2)',
+                  outline: 'none',
+                  cursor: 'pointer',
+                }}
+                onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#f28b82'; (e.currentTarget as HTMLElement).style.background = 'rgba(242,139,130,0.12)'; }}
+                onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
+                onClick={() => handleDelete(ws.id)}
+                title={`Delete "${ws.name}"`}
+              >
+                <svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round">
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          );
+        })}
+
+        {/* Save / Input */}
+        {showInput ? (
+          <div className="flex items-center gap-1 shrink-0">
+            <input
+              ref={inputRef}
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') { setShowInput(false); setNameInput(''); }
+              }}
+              data-no-hud-escape="true"
+              placeholder="Name…"
+              className="bg-white/[0.08] border border-white/[0.14] rounded-md px-2 text-[11px] text-white/80 placeholder-white/25 outline-none"
+              style={{ height: 26, width: 90 }}
+            />
             <button
-              className="flex items-center gap-2 px-2.5"
-              style={{ outline: 'none', cursor: 'pointer' }}
-              onClick={() => handleRestore(ws)}
-              title={`Restore "${ws.name}" (${ws.tabs.length} tabs)`}
+              onClick={handleSave}
+              disabled={saving || !nameInput.trim()}
+              className="px-2 rounded-md bg-white/[0.08] border border-white/[0.12] text-[10px] text-white/50 hover:bg-white/[0.12] disabled:opacity-40 transition-colors"
+              style={{ height: 26 }}
             >
-              {/* Favicon stack */}
-              <div className="flex -space-x-1 shrink-0">
-                {ws.tabs.slice(0, 3).map((t, i) => (
-                  <div key={i} className="w-3 h-3 rounded-sm bg-white/10 border border-white/[0.06] overflow-hidden shrink-0">
-                    {t.faviconUrl && <img src={t.faviconUrl} alt="" className="w-full h-full object-cover" />}
-                  </div>
-                ))}
-              </div>
-              <span className="text-[11px] font-medium" style={{ color: 'rgba(255,255,255,0.65)' }}>{ws.name}</span>
-              <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.25)' }}>{ws.tabs.length}</span>
+              {saving ? '…' : 'Save'}
             </button>
-
-            {/* Update button */}
             <button
-              className="flex items-center justify-center px-1.5"
-              style={{
-                borderLeft: '1px solid rgba(255,255,255,0.06)',
-                color: 'rgba(255,255,255,0.2)',
-                outline: 'none',
-                cursor: 'pointer',
-              }}
-              onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#81c995'; (e.currentTarget as HTMLElement).style.background = 'rgba(129,201,149,0.12)'; }}
-              onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
-              onClick={() => handleUpdate(ws.id)}
-              title={`Update "${ws.name}" with current tabs`}
+              onClick={handleSaveLive}
+              disabled={saving || !nameInput.trim()}
+              className="px-2 rounded-md bg-white/[0.08] border border-white/[0.12] text-[10px] text-white/50 hover:bg-white/[0.12] disabled:opacity-40 transition-colors"
+              style={{ height: 26 }}
+              title="Save this window and keep the workspace updated as its tabs change"
             >
-              <svg width="9" height="9" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                <path d="M23 4v6h-6M1 20v-6h6" />
-                <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15" />
-              </svg>
+              Live
             </button>
-
-            {/* Delete button */}
             <button
-              className="flex items-center justify-center px-1.5"
-              style={{
-                borderLeft: '1px solid rgba(255,255,255,0.06)',
-                color: 'rgba(255,255,255,0.2)',
-                outline: 'none',
-                cursor: 'pointer',
-              }}
-              onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.color = '#f28b82'; (e.currentTarget as HTMLElement).style.background = 'rgba(242,139,130,0.12)'; }}
-              onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.color = 'rgba(255,255,255,0.2)'; (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
-              onClick={() => handleDelete(ws.id)}
-              title={`Delete "${ws.name}"`}
+              onClick={() => { setShowInput(false); setNameInput(''); }}
+              className="text-white/25 hover:text-white/50 text-[10px]"
             >
-              <svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round">
-                <path d="M18 6L6 18M6 6l12 12" />
-              </svg>
+              ✕
             </button>
           </div>
-        );
-      })}
-
-      {/* Save / Input */}
-      {showInput ? (
-        <div className="flex items-center gap-1 shrink-0">
-          <input
-            ref={inputRef}
-            type="text"
-            value={nameInput}
-            onChange={(e) => setNameInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') handleSave();
-              if (e.key === 'Escape') { setShowInput(false); setNameInput(''); }
-            }}
-            data-no-hud-escape="true"
-            placeholder="Name…"
-            className="bg-white/[0.08] border border-white/[0.14] rounded-md px-2 text-[11px] text-white/80 placeholder-white/25 outline-none"
-            style={{ height: 26, width: 90 }}
-          />
-          <button
-            onClick={handleSave}
-            disabled={saving || !nameInput.trim()}
-            className="px-2 rounded-md bg-white/[0.08] border border-white/[0.12] text-[10px] text-white/50 hover:bg-white/[0.12] disabled:opacity-40 transition-colors"
-            style={{ height: 26 }}
-          >
-            {saving ? '…' : 'Save'}
-          </button>
+        ) : (
           <button
-            onClick={() => { setShowInput(false); setNameInput(''); }}
-            className="text-white/25 hover:text-white/50 text-[10px]"
+            className="flex items-center justify-center rounded-md text-[13px] text-white/25 hover:text-white/55 transition-colors shrink-0"
+            style={{
+              height: 26,
+              width: 26,
+              background: 'rgba(255,255,255,0.03)',
+              border: '1px solid rgba(255,255,255,0.06)',
+            }}
+            onClick={() => setShowInput(true)}
+            title="Save current tabs as workspace"
           >
-            ✕
+            +
           </button>
-        </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function tabDiff(before: Workspace['tabs'], after: Workspace['tabs']) {
+  const beforeUrls = new Set(before.map((t) => t.url));
+  const afterUrls = new Set(after.map((t) => t.url));
+  return {
+    added: after.filter((t) => !beforeUrls.has(t.url)),
+    removed: before.filter((t) => !afterUrls.has(t.url)),
+  };
+}
+
+function formatWhen(ts: number): string {
+  const d = new Date(ts);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : d.toLocaleDateString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/** Version list for one workspace: what each update added/removed, with restore. */
+function WorkspaceHistory({ workspace, versions, onRestore, onClose }: {
+  workspace: Workspace;
+  versions: WorkspaceVersion[];
+  onRestore: (version: WorkspaceVersion) => void;
+  onClose: () => void;
+}) {
+  return (
+    <div
+      className="px-3 py-2 max-h-[180px] overflow-y-auto"
+      style={{ borderTop: '1px solid rgba(255,255,255,0.04)', background: 'rgba(0,0,0,0.28)' }}
+    >
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-white/40">History · {workspace.name}</span>
+        <button onClick={onClose} className="text-white/25 hover:text-white/50 text-[10px]">✕</button>
+      </div>
+      {versions.length === 0 ? (
+        <div className="text-[10px] text-white/25 py-1">No earlier versions yet — they're kept each time you update this workspace.</div>
       ) : (
+        versions.map((v, i) => {
+          // Each version was replaced by the next-newer one (or the current workspace)
+          const after = i === 0 ? workspace : versions[i - 1];
+          const { added, removed } = tabDiff(v.tabs, after.tabs);
+          const renamed = v.name !== after.name;
+          return (
+            <div key={v.id} className="flex items-start gap-2 py-1" style={{ borderTop: i > 0 ? '1px solid rgba(255,255,255,0.04)' : undefined }}>
+              <span className="text-[10px] text-white/30 shrink-0 w-[88px]">{formatWhen(v.savedAt)}</span>
+              <div className="flex-1 min-w-0 text-[10px] leading-snug">
+                {added.length === 0 && removed.length === 0 && !renamed && (
+                  <span className="text-white/25">Reordered or retitled tabs</span>
+                )}
+                {renamed && <div className="text-white/40 truncate">Renamed from "{v.name}"</div>}
+                {added.map((t) => (
+                  <div key={`+${t.url}`} className="truncate" style={{ color: '#81c995' }} title={t.url}>+ {t.title || t.url}</div>
+                ))}
+                {removed.map((t) => (
+                  <div key={`-${t.url}`} className="truncate" style={{ color: '#f28b82' }} title={t.url}>− {t.title || t.url}</div>
+                ))}
+              </div>
+              <button
+                onClick={() => onRestore(v)}
+                className="shrink-0 px-1.5 py-0.5 rounded bg-white/[0.06] border border-white/[0.1] text-[10px] text-white/50 hover:bg-white/[0.12] hover:text-white/70 transition-colors"
+                title={`Restore the ${v.tabs.length} tabs from before this change`}
+              >
+                Restore
+              </button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+function TabTitleList({ label, tabs, color }: { label: string; tabs: { url: string; title: string }[]; color: string }) {
+  if (tabs.length === 0) return null;
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="text-[10px] mb-0.5" style={{ color }}>{label} · {tabs.length}</div>
+      {tabs.slice(0, 5).map((t, i) => (
+        <div key={i} className="text-[10px] text-white/40 truncate" title={t.url}>{t.title || t.url}</div>
+      ))}
+      {tabs.length > 5 && <div className="text-[10px] text-white/25">+{tabs.length - 5} more</div>}
+    </div>
+  );
+}
+
+/** Restore preview: which tabs are already open, which would open, and what "replace" would close. */
+function RestorePreview({ workspace, diff, onRestore, onClose }: {
+  workspace: Workspace;
+  diff: WorkspaceDiff;
+  onRestore: (mode: RestoreMode) => void;
+  onClose: () => void;
+}) {
+  const buttonClass = 'px-2 py-0.5 rounded bg-white/[0.06] border border-white/[0.1] text-[10px] text-white/55 hover:bg-white/[0.12] hover:text-white/75 disabled:opacity-35 transition-colors';
+  return (
+    <div
+      className="px-3 py-2 max-h-[200px] overflow-y-auto"
+      style={{ borderTop: '1px solid rgba(255,255,255,0.04)', background: 'rgba(0,0,0,0.28)' }}
+    >
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-white/40">Restore · {workspace.name}</span>
+        <button onClick={onClose} className="text-white/25 hover:text-white/50 text-[10px]">✕</button>
+      </div>
+      <div className="flex gap-3 mb-2">
+        <TabTitleList label="Already open" tabs={diff.alreadyOpen.map((a) => a.tab)} color="rgba(255,255,255,0.45)" />
+        <TabTitleList label="New" tabs={diff.missing} color="#81c995" />
+        <TabTitleList label="Open here, not in workspace" tabs={diff.extra} color="#f28b82" />
+      </div>
+      <div className="flex items-center gap-1.5">
         <button
-          className="flex items-center justify-center rounded-md text-[13px] text-white/25 hover:text-white/55 transition-colors shrink-0"
-          style={{
-            height: 26,
-            width: 26,
-            background: 'rgba(255,255,255,0.03)',
-            border: '1px solid rgba(255,255,255,0.06)',
-          }}
-          onClick={() => setShowInput(true)}
-          title="Save current tabs as workspace"
+          className={buttonClass}
+          disabled={diff.missing.length === 0}
+          onClick={() => onRestore('missing')}
+          title="Open only the tabs that aren't open anywhere yet"
         >
-          +
+          {diff.missing.length === 0 ? 'Everything is already open' : `Open missing only (${diff.missing.length})`}
         </button>
-      )}
+        <button
+          className={buttonClass}
+          onClick={() => onRestore('replace')}
+          title={`Make this window match the workspace${diff.extra.length > 0 ? ` (closes ${diff.extra.length} tab${diff.extra.length === 1 ? '' : 's'} here)` : ''}; tabs open in other windows stay there and open again here`}
+        >
+          Replace window
+        </button>
+        <button className={buttonClass} onClick={() => onRestore('new-window')} title="Open every tab in a new window">
+          Open in new window
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Live saving: bind a workspace to this window or tab group, or stop. */
+function LivePanel({ workspace, binding, error, onBind, onUnbind, onClose }: {
+  workspace: Workspace;
+  binding: LiveBinding | null;
+  error: string | null;
+  onBind: (scope: 'window' | 'group') => void;
+  onUnbind: () => void;
+  onClose: () => void;
+}) {
+  const buttonClass = 'px-2 py-0.5 rounded bg-white/[0.06] border border-white/[0.1] text-[10px] text-white/55 hover:bg-white/[0.12] hover:text-white/75 transition-colors';
+  const target = binding?.kind === 'group' ? 'tab group' : 'window';
+  return (
+    <div
+      className="px-3 py-2"
+      style={{ borderTop: '1px solid rgba(255,255,255,0.04)', background: 'rgba(0,0,0,0.28)' }}
+    >
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-white/40">Live · {workspace.name}</span>
+        <button onClick={onClose} className="text-white/25 hover:text-white/50 text-[10px]">✕</button>
+      </div>
+      <div className="text-[10px] text-white/35 mb-2">
+        {!binding
+          ? 'Snapshot — only changes when you update it. Live workspaces save their tabs automatically as they change.'
+          : binding.windowId !== null
+            ? `Saving automatically from its ${target}. Closing the ${target} keeps the last saved tabs.`
+            : `Paused — its ${target} was closed. Restore it in a new window to resume live saving.`}
+      </div>
+      {error && <div className="text-[10px] mb-2" style={{ color: '#f28b82' }}>{error}</div>}
+      <div className="flex items-center gap-1.5">
+        <button className={buttonClass} onClick={() => onBind('window')} title="Replace the workspace with this window's tabs and keep it in sync">
+          {binding ? 'Bind to this window' : 'Live: this window'}
+        </button>
+        <button className={buttonClass} onClick={() => onBind('group')} title="Replace the workspace with this tab group and keep it in sync">
+          {binding ? 'Bind to this tab group' : 'Live: this tab group'}
+        </button>
+        {binding && (
+          <button className={buttonClass} onClick={onUnbind} title="Turn it back into a snapshot">
+            Stop live saving
+          </button>
+        )}
+      </div>
     </div>
   );
 }
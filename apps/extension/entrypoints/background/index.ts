@@ -1,13 +1,35 @@
 import { initializeMRU, pushToFront, updateTab, removeTab } from '@/lib/mru';
-import { getSettings } from '@/lib/settings';
+import { getSettings, type TabFlowSettings } from '@/lib/settings';
 import { getMRUList, setMRUList } from '@/lib/storage';
-import { recordVisit } from '@/lib/frecency';
+import { recordVisit, getFrecencyMap } from '@/lib/frecency';
+import {
+  initActiveTime, focusTab, tabUpdated, tabClosed, setWindowFocused, setIdleState, flushActiveTime, IDLE_DETECTION_SECONDS,
+} from '@/lib/active-time';
 import { getBookmarks, addBookmark, removeBookmark } from '@/lib/bookmarks';
 import { getNotesMap, saveNote, deleteNote } from '@/lib/notes';
 import { getSnoozedTabs, snoozeTab, removeSnoozedTab, wakeExpiredTabs } from '@/lib/snooze';
-import { getApiUrl, getDeviceId } from '@/lib/api-client';
-import { saveWorkspace } from '@/lib/workspaces';
+import { sendOrQueue, flushOutbox, type OutboxOp } from '@/lib/outbox';
+import {
+  getWorkspaces, saveWorkspace, updateWorkspace, sameWorkspaceContent, type WorkspaceTab, type WorkspaceGroup,
+} from '@/lib/workspaces';
+import { captureWorkspace, isRestorableUrl } from '@/lib/workspace-capture';
+import {
+  getSchedules, armScheduleAlarms, getWorkspaceWindows, setWorkspaceWindows, clearWorkspaceWindows, SCHEDULE_ALARM_PREFIX,
+} from '@/lib/schedules';
+import {
+  getLiveBindings, setLiveBinding, detachLiveBindings, captureLiveBinding, type LiveBinding,
+} from '@/lib/live-workspaces';
+import { diffWorkspace, type OpenTab, type RestoreMode } from '@/lib/workspace-diff';
+import { completeChat, completeAgentViaServer, resolveLlmProvider, parseJsonReply, LlmError, type ChatMessage } from '@/lib/llm';
+import { describeAgentTools, runAgentTool } from '@/lib/agent-tools';
+import { compileTabList, domainOf, estimateTokens } from '@/lib/prompt-compiler';
+import { buildAgentPrompt } from '@shared/agent-prompt';
+import { isPageContentAllowed, claimPageContentSend, type PageContent } from '@/lib/page-content';
+import type { TabInfo } from '@/lib/types';
+import { validateAgentActions, loadAgentContext } from '@/lib/agent';
+import { beginAgentUndo, recordAgentAction, commitAgentUndo, undoAgentBatch } from '@/lib/agent-undo';
 import { signOut, getStoredTokens, type TokenSet } from '@/lib/auth';
+import { syncWorkspaces, resolveConflict } from '@/lib/sync';
 
 /** Opens the custom auth window and resolves when auth completes or is cancelled. */
 function openAuthWindow(): Promise<{ success: boolean; tokenSet?: TokenSet; error?: string }> {
@@ -69,27 +91,10 @@ let hudVisible = false;
 // to cover the 150ms CSS fade-out animation and any async timing slack.
 let hudHideTime = 0;
 
-// Analytics: track focus time per tab
-let activeTabFocusStart = Date.now();
-let activeTabMeta: { tabId: number; url: string; domain: string; title: string } | null = null;
-
 function getDomainFromUrl(url: string): string {
   try { return new URL(url).hostname.replace('www.', ''); } catch { return ''; }
 }
 
-/** Send tab visit analytics to the API (fire and forget) */
-async function reportVisit(url: string, domain: string, title: string, durationMs: number) {
-  if (!url || !domain || durationMs < 1000) return; // ignore very short visits
-  try {
-    const [apiUrl, deviceId] = await Promise.all([getApiUrl(), getDeviceId()]);
-    fetch(`${apiUrl}/api/analytics/visit`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
-      body: JSON.stringify({ url, domain, title, durationMs }),
-    }).catch(() => {}); // silent fail if API down
-  } catch { /* ignore */ }
-}
-
 
 /** Recursively collect all URL bookmarks from Chrome's bookmark tree */
 function collectChromeBookmarks(nodes: chrome.bookmarks.BookmarkTreeNode[]): { url: string; title: string }[] {
@@ -113,6 +118,20 @@ export default defineBackground(() => {
   // Restore thumbnails from last session
   loadCachedThumbnails();
 
+  // Pull cloud workspaces down as soon as the worker starts
+  syncWorkspaces().catch(() => {});
+
+  // Retry cloud writes that were queued while the API was unreachable
+  flushOutbox().catch(() => {});
+
+  // Workspace schedules use one-shot alarms; make sure each enabled one is armed
+  armScheduleAlarms().catch(() => {});
+  chrome.runtime.onStartup.addListener(() => {
+    clearWorkspaceWindows().catch(() => {});
+    // Window and group ids don't survive a restart
+    detachLiveBindings().catch(() => {});
+  });
+
   // Log the redirect URL so it can be verified in Cognito settings
   console.log('[TabFlow] Cognito redirect URL:', chrome.identity.getRedirectURL());
 
@@ -126,27 +145,30 @@ export default defineBackground(() => {
     }
   });
 
-  // Track tab activation (MRU ordering + frecency + thumbnail capture + analytics)
-  chrome.tabs.onActivated.addListener(async ({ tabId, windowId }) => {
-    // Record duration for the tab we're leaving
-    if (activeTabMeta) {
-      const durationMs = Date.now() - activeTabFocusStart;
-      reportVisit(activeTabMeta.url, activeTabMeta.domain, activeTabMeta.title, durationMs);
+  // Analytics: attention time only counts while a window is focused and the user isn't idle
+  initActiveTime().catch(() => {});
+  chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+  chrome.idle.onStateChanged.addListener((state) => { setIdleState(state).catch(() => {}); });
+  chrome.windows.onFocusChanged.addListener(async (windowId) => {
+    if (windowId === chrome.windows.WINDOW_ID_NONE) {
+      await setWindowFocused(false).catch(() => {});
+      return;
     }
+    // Switching windows doesn't fire onActivated: the focused window's active tab takes over
+    const [tab] = await chrome.tabs.query({ active: true, windowId }).catch(() => []);
+    if (tab?.id !== undefined && tab.url) await focusTab({ tabId: tab.id, url: tab.url, title: tab.title || '' }).catch(() => {});
+    await setWindowFocused(true).catch(() => {});
+  });
 
+  // Track tab activation (MRU ordering + frecency + thumbnail capture + analytics)
+  chrome.tabs.onActivated.addListener(async ({ tabId, windowId }) => {
     await pushToFront(tabId, windowId);
     try {
       const tab = await chrome.tabs.get(tabId);
       if (tab.url) {
         recordVisit(tab.url);
-        // Start tracking new tab
-        activeTabFocusStart = Date.now();
-        activeTabMeta = {
-          tabId,
-          url: tab.url,
-          domain: getDomainFromUrl(tab.url),
-          title: tab.title || '',
-        };
+        // Ends the visit to the tab we're leaving
+        focusTab({ tabId, url: tab.url, title: tab.title || '' }).catch(() => {});
       }
     } catch { /* tab may not exist */ }
     broadcastUpdate();
@@ -166,6 +188,9 @@ export default defineBackground(() => {
 
   // Track tab updates (title, URL, favicon changes)
   chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+    if (changeInfo.url !== undefined || changeInfo.title !== undefined) {
+      tabUpdated(tabId, { url: changeInfo.url, title: changeInfo.title }).catch(() => {});
+    }
     const changes: Record<string, any> = {};
     if (changeInfo.title !== undefined) changes.title = changeInfo.title;
     if (changeInfo.url !== undefined) changes.url = changeInfo.url;
@@ -209,6 +234,7 @@ export default defineBackground(() => {
 
   // Track tab removal — send targeted message for instant HUD update
   chrome.tabs.onRemoved.addListener(async (tabId) => {
+    tabClosed(tabId).catch(() => {});
     await removeTab(tabId);
     if (tabThumbnails.delete(tabId)) persistThumbnails();
     broadcastSpecific({ type: 'tab-removed', tabId });
@@ -264,6 +290,30 @@ export default defineBackground(() => {
     broadcastUpdate();
   });
 
+  // Live workspaces — re-save bound windows/groups shortly after their tabs change.
+  // Tabs removed because their window is closing are ignored, so the last save stands.
+  chrome.tabs.onCreated.addListener((tab) => scheduleLiveSave(tab.windowId));
+  chrome.tabs.onRemoved.addListener((_tabId, { windowId, isWindowClosing }) => {
+    if (!isWindowClosing) scheduleLiveSave(windowId);
+  });
+  chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+    if (changeInfo.url || changeInfo.title || changeInfo.pinned !== undefined || changeInfo.groupId !== undefined) {
+      scheduleLiveSave(tab.windowId);
+    }
+  });
+  chrome.tabs.onMoved.addListener((_tabId, { windowId }) => scheduleLiveSave(windowId));
+  chrome.tabs.onAttached.addListener((_tabId, { newWindowId }) => scheduleLiveSave(newWindowId));
+  chrome.tabs.onDetached.addListener((_tabId, { oldWindowId }) => scheduleLiveSave(oldWindowId));
+  chrome.tabGroups.onUpdated.addListener((group) => scheduleLiveSave(group.windowId));
+  chrome.tabGroups.onRemoved.addListener((group) => {
+    detachLiveBindings({ groupId: group.id }).catch(() => {});
+  });
+  chrome.windows.onRemoved.addListener((windowId) => {
+    clearTimeout(liveSaveTimers.get(windowId));
+    liveSaveTimers.delete(windowId);
+    detachLiveBindings({ windowId }).catch(() => {});
+  });
+
   // Handle keyboard shortcut
   chrome.commands.onCommand.addListener(async (command) => {
     if (command === 'toggle-hud') {
@@ -457,6 +507,17 @@ export default defineBackground(() => {
       }
     }
 
+    if (message.type === 'page-content') {
+      // Summary from the content script (already filtered by settings); send at most once a day per URL unless it changed
+      const content = message.payload as PageContent;
+      (async () => {
+        const settings = await getSettings();
+        if (!isPageContentAllowed(content.url, settings)) return;
+        if (!(await claimPageContentSend(content))) return;
+        await sendOrQueue({ kind: 'embed', url: content.url, title: content.title, summary: content.summary });
+      })().catch(() => {});
+    }
+
     if (message.type === 'ungroup-tabs') {
       const { tabIds } = message.payload;
       (async () => {
@@ -488,6 +549,7 @@ export default defineBackground(() => {
           if (existing.length === 0) {
             await chrome.bookmarks.create({ parentId: '1', title, url });
           }
+          await addBookmark({ url, title, faviconUrl: '' });
           sendResponse({ bookmarks: await getChromeBookmarks() });
         } catch { sendResponse({ bookmarks: [] }); }
       })();
@@ -500,6 +562,7 @@ export default defineBackground(() => {
         try {
           const existing = await chrome.bookmarks.search({ url });
           for (const b of existing) await chrome.bookmarks.remove(b.id).catch(() => {});
+          await removeBookmark(url);
           sendResponse({ bookmarks: await getChromeBookmarks() });
         } catch { sendResponse({ bookmarks: [] }); }
       })();
@@ -534,12 +597,13 @@ export default defineBackground(() => {
     }
 
     if (message.type === 'rename-group') {
-      const { groupId, title, color } = message.payload as { groupId: number; title?: string; color?: string };
+      const { groupId, title, color, collapsed } = message.payload as { groupId: number; title?: string; color?: string; collapsed?: boolean };
       (async () => {
         try {
           const update: chrome.tabGroups.UpdateProperties = {};
           if (title !== undefined) update.title = title;
           if (color !== undefined) update.color = color as chrome.tabGroups.UpdateProperties['color'];
+          if (collapsed !== undefined) update.collapsed = collapsed;
           await chrome.tabGroups.update(groupId, update);
           // Sync MRU group info for affected tabs
           const list = await getMRUList();
@@ -657,6 +721,48 @@ export default defineBackground(() => {
       return true;
     }
 
+    // Sort a window's tabs. Pinned tabs stay put and groups move as a unit, keyed by their title.
+    if (message.type === 'sort-tabs') {
+      const { windowId, by } = message.payload as { windowId: number; by: 'title' | 'domain' | 'recent' };
+      (async () => {
+        try {
+          const tabs = (await chrome.tabs.query({ windowId })).sort((a, b) => a.index - b.index);
+          const groups = new Map((await chrome.tabGroups.query({ windowId })).map((g) => [g.id, g]));
+          const lastAccessed = new Map((await getMRUList()).map((t) => [t.tabId, t.lastAccessed]));
+
+          type Block = { key: string | number; groupId: number | null; tabIds: number[] };
+          const blocks: Block[] = [];
+          for (const t of tabs) {
+            if (t.pinned || t.id === undefined) continue;
+            const inGroup = t.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE;
+            const prev = blocks[blocks.length - 1];
+            if (inGroup && prev?.groupId === t.groupId) { prev.tabIds.push(t.id); continue; }
+            const key = by === 'recent'
+              ? -(lastAccessed.get(t.id) ?? 0)
+              : inGroup
+                ? (groups.get(t.groupId)?.title ?? '').toLowerCase()
+                : by === 'domain' ? getDomainFromUrl(t.url ?? '') : (t.title ?? '').toLowerCase();
+            blocks.push({ key, groupId: inGroup ? t.groupId : null, tabIds: [t.id] });
+          }
+          blocks.sort((a, b) => (typeof a.key === 'number' && typeof b.key === 'number'
+            ? a.key - b.key
+            : String(a.key).localeCompare(String(b.key))));
+
+          let index = tabs.filter((t) => t.pinned).length;
+          for (const block of blocks) {
+            if (block.groupId !== null) await chrome.tabGroups.move(block.groupId, { index });
+            else await chrome.tabs.move(block.tabIds[0], { index });
+            index += block.tabIds.length;
+          }
+          broadcastUpdate();
+          sendResponse({ success: true });
+        } catch (err) {
+          sendResponse({ success: false, error: String(err) });
+        }
+      })();
+      return true;
+    }
+
     // Move multiple tabs to a new window
     if (message.type === 'move-tabs-to-new-window') {
       const { tabIds } = message.payload as { tabIds: number[] };
@@ -720,34 +826,27 @@ export default defineBackground(() => {
       return true;
     }
 
+    // Snapshot open tabs for a workspace save/update (the HUD can't use tabs/tabGroups)
+    if (message.type === 'capture-workspace') {
+      const { scope } = (message.payload ?? {}) as { scope?: 'window' | 'all' };
+      captureWorkspace(scope === 'window' ? sender.tab?.windowId : undefined)
+        .then((snapshot) => sendResponse({ success: true, ...snapshot }))
+        .catch((err) => sendResponse({ success: false, error: String(err) }));
+      return true;
+    }
+
     if (message.type === 'create-workspace') {
-      const { name } = message.payload;
+      const { name, live } = message.payload as { name: string; live?: boolean };
       (async () => {
         try {
-          const chromeTabs = await chrome.tabs.query({});
-          // Fetch group info for all grouped tabs
-          const groupIds = [...new Set(chromeTabs.map((t) => t.groupId).filter((id) => id !== -1))];
-          const groupMap = new Map<number, { title: string; color: string }>();
-          for (const gid of groupIds) {
-            try {
-              const group = await chrome.tabGroups.get(gid);
-              groupMap.set(gid, { title: group.title ?? '', color: group.color });
-            } catch { /* group may not exist */ }
-          }
-          const tabData = chromeTabs
-            .filter((t) => t.url && !t.url.startsWith('chrome://') && !t.url.startsWith('chrome-extension://') && !t.url.startsWith('about:'))
-            .map((t) => {
-              const group = t.groupId !== -1 ? groupMap.get(t.groupId) : undefined;
-              return {
-                title: t.title ?? '',
-                url: t.url ?? '',
-                faviconUrl: t.favIconUrl ?? '',
-                ...(group ? { groupTitle: group.title, groupColor: group.color } : {}),
-              };
-            });
-          await saveWorkspace(name, tabData);
+          // A live workspace tracks one window, so only that window is captured
+          const windowId = live ? sender.tab?.windowId ?? (await chrome.windows.getLastFocused()).id! : undefined;
+          const { tabs, groups } = await captureWorkspace(windowId);
+          const ws = await saveWorkspace(name, tabs, groups);
+          if (windowId !== undefined) await setLiveBinding(ws.id, { kind: 'window', windowId, groupId: null });
           broadcastSpecific({ type: 'workspace-updated' });
           sendResponse({ success: true });
+          syncWorkspaces().catch(() => {});
         } catch {
           sendResponse({ success: false });
         }
@@ -883,55 +982,38 @@ export default defineBackground(() => {
       return true;
     }
 
-    // Workspace restore — open all tabs in a new window and recreate groups
-    if (message.type === 'restore-workspace') {
+    // Compare a workspace with what's open so the HUD can preview a restore
+    if (message.type === 'diff-workspace') {
+      const { tabs } = message.payload as { tabs: WorkspaceTab[] };
       (async () => {
         try {
-          const tabDefs: { url: string; groupTitle?: string; groupColor?: string }[] =
-            message.groups || message.urls.map((u: string) => ({ url: u }));
-          const urls = tabDefs.map((t) => t.url).filter(Boolean);
-          if (urls.length === 0) { sendResponse({ success: false }); return; }
-
-          // Create new window with the first URL; remaining tabs added after
-          const newWindow = await chrome.windows.create({ url: urls[0], focused: true });
-          const windowId = newWindow.id!;
-          const firstTabId = newWindow.tabs?.[0]?.id;
-
-          // Create remaining tabs in the new window
-          const createdTabIds: (number | undefined)[] = [firstTabId];
-          for (let i = 1; i < urls.length; i++) {
-            const t = await chrome.tabs.create({ url: urls[i], windowId, active: false });
-            createdTabIds.push(t.id);
-          }
-
-          // Group tabs by groupTitle+groupColor
-          const groupMap = new Map<string, { color: string; tabIds: number[] }>();
-          for (let i = 0; i < tabDefs.length; i++) {
-            const def = tabDefs[i];
-            const tabId = createdTabIds[i];
-            if (def.groupTitle && def.groupColor && tabId) {
-              const key = `${def.groupTitle}::${def.groupColor}`;
-              const existing = groupMap.get(key);
-              if (existing) existing.tabIds.push(tabId);
-              else groupMap.set(key, { color: def.groupColor, tabIds: [tabId] });
-            }
-          }
+          const windowId = sender.tab?.windowId ?? (await chrome.windows.getLastFocused()).id!;
+          const diff = diffWorkspace(tabs, await getOpenTabs(), windowId);
+          sendResponse({ success: true, windowId, diff });
+        } catch (err) {
+          sendResponse({ success: false, error: String(err) });
+        }
+      })();
+      return true;
+    }
 
-          // Recreate tab groups in the new window, then update MRU immediately so the
-          // HUD shows group names on first open without waiting for onUpdated propagation.
-          for (const [key, { color, tabIds }] of groupMap) {
-            const title = key.split('::')[0];
-            const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
-            await chrome.tabGroups.update(groupId, {
-              title,
-              color: color as chrome.tabGroups.ColorEnum,
-            }).catch(() => {});
-            // Eagerly write group info to MRU so fetchTabs returns correct names immediately
-            for (const tabId of tabIds) {
-              if (tabId) {
-                await updateTab(tabId, { groupId, groupTitle: title, groupColor: color }).catch(() => {});
-              }
-            }
+    // Workspace restore — 'new-window' opens one new window per saved window, 'missing' adds
+    // only tabs that aren't open in any window, 'replace' makes the target window exactly the
+    // workspace without touching other windows; groups are recreated in every mode
+    if (message.type === 'restore-workspace') {
+      (async () => {
+        try {
+          const tabDefs: WorkspaceTab[] = (message.groups ||
+            message.urls.map((u: string) => ({ url: u, title: '', faviconUrl: '' }))).filter((t: WorkspaceTab) => t.url);
+          if (tabDefs.length === 0) { sendResponse({ success: false }); return; }
+          const mode: RestoreMode = message.mode ?? 'new-window';
+          const targetWindowId: number | undefined = message.windowId ?? sender.tab?.windowId;
+          const windowIds = await restoreWorkspaceTabs(tabDefs, message.tabGroups ?? [], mode, targetWindowId);
+          // Remember which windows now hold this workspace so save-and-close can find them
+          if (message.workspaceId && mode !== 'missing') await setWorkspaceWindows(message.workspaceId, windowIds);
+          // A detached live workspace picks its binding back up in the window it was restored into
+          if (message.workspaceId && mode !== 'missing' && windowIds.length === 1) {
+            await reattachLiveWorkspace(message.workspaceId, windowIds[0]);
           }
           // One final broadcast after everything is fully set up
           broadcastUpdate();
@@ -941,6 +1023,74 @@ export default defineBackground(() => {
       return true;
     }
 
+    // Bind a workspace to the sender's window or tab group and save it right away
+    if (message.type === 'bind-live-workspace') {
+      const { workspaceId, scope } = message.payload as { workspaceId: string; scope: 'window' | 'group' };
+      (async () => {
+        try {
+          const windowId = sender.tab?.windowId ?? (await chrome.windows.getLastFocused()).id!;
+          const groupId = sender.tab?.groupId ?? chrome.tabGroups.TAB_GROUP_ID_NONE;
+          if (scope === 'group' && groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+            sendResponse({ success: false, error: 'not-in-group' });
+            return;
+          }
+          const binding: LiveBinding = scope === 'group'
+            ? { kind: 'group', windowId, groupId }
+            : { kind: 'window', windowId, groupId: null };
+          await setLiveBinding(workspaceId, binding);
+          // Binding replaces the workspace's tabs, so keep what it held before in history
+          await saveLiveWorkspace(workspaceId, binding, { recordVersion: true });
+          sendResponse({ success: true, binding });
+        } catch (err) {
+          sendResponse({ success: false, error: String(err) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.type === 'unbind-live-workspace') {
+      setLiveBinding(message.payload.workspaceId, null)
+        .then(() => sendResponse({ success: true }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    // Options page edited schedules — re-arm their alarms
+    if (message.type === 'schedules-updated') {
+      armScheduleAlarms()
+        .then(() => sendResponse({ success: true }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    // Workspace cloud sync — run a pass now (HUD/options open) and report what changed
+    if (message.type === 'sync-workspaces') {
+      syncWorkspaces()
+        .then((result) => sendResponse({ success: true, result }))
+        .catch((err) => sendResponse({ success: false, error: String(err) }));
+      return true;
+    }
+
+    // Cloud writes from the HUD/options/popup — the outbox lives in this worker
+    if (message.type === 'outbox-send') {
+      const { op } = message.payload as { op: OutboxOp };
+      sendOrQueue(op)
+        .then(() => sendResponse({ success: true }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    if (message.type === 'resolve-sync-conflict') {
+      const { id, keep } = message.payload as { id: string; keep: 'local' | 'remote' };
+      resolveConflict(id, keep)
+        .then(() => {
+          broadcastSpecific({ type: 'workspace-updated' });
+          sendResponse({ success: true });
+        })
+        .catch((err) => sendResponse({ success: false, error: String(err) }));
+      return true;
+    }
+
     // Return all cached tab thumbnails
     if (message.type === 'get-all-thumbnails') {
       sendResponse({ thumbnails: Object.fromEntries(tabThumbnails) });
@@ -961,96 +1111,75 @@ export default defineBackground(() => {
       return true;
     }
 
-    // AI tab agent — calls Groq API and returns structured actions
+    // AI agent undo — the HUD brackets a batch with begin/commit and records after each action
+    if (message.type === 'agent-undo-begin') {
+      beginAgentUndo()
+        .then((batchId) => sendResponse({ success: true, batchId }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    if (message.type === 'agent-undo-record') {
+      const { batchId, action } = message.payload;
+      recordAgentAction(batchId, action)
+        .then((success) => sendResponse({ success }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    if (message.type === 'agent-undo-commit') {
+      commitAgentUndo(message.payload.batchId)
+        .then((batch) => sendResponse({ success: true, undoable: !!batch }))
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    if (message.type === 'undo-agent-batch') {
+      undoAgentBatch(message.payload.batchId)
+        .then((success) => {
+          broadcastUpdate();
+          broadcastSpecific({ type: 'workspace-updated' });
+          sendResponse({ success });
+        })
+        .catch(() => sendResponse({ success: false }));
+      return true;
+    }
+
+    // AI tab agent — calls the configured LLM provider and returns structured actions
     if (message.type === 'ai-agent') {
       (async () => {
         try {
           const settings = await getSettings();
-          const apiKey = settings.groqApiKey;
-          if (!apiKey) {
-            sendResponse({ error: 'no-key' });
-            return;
-          }
 
-          const { query, tabs, windows } = message.payload as {
+          const { query, history = [], tabs, windows } = message.payload as {
             query: string;
-            tabs: Array<{ tabId: number; windowId: number; title: string; url: string; groupId?: number; groupTitle?: string; groupColor?: string; isPinned?: boolean; isMuted?: boolean; isAudible?: boolean; isActive?: boolean }>;
+            history?: ChatMessage[]; // earlier turns of this HUD session, oldest first
+            tabs: TabInfo[];
             windows?: Array<{ windowId: number; tabCount: number; activeTabTitle?: string }>;
           };
 
-          // Build enriched tab list string
-          const tabListString = tabs.map((t) => {
-            const domain = (() => { try { return new URL(t.url).hostname.replace('www.', ''); } catch { return t.url; } })();
-            const group  = t.groupId ? ` [group:${t.groupId}:"${t.groupTitle ?? ''}"]` : '';
-            const flags  = [
-              t.isActive  ? '[active]'  : '',
-              t.isPinned  ? '[pinned]'  : '',
-              t.isMuted   ? '[muted]'   : '',
-              t.isAudible ? '[audible]' : '',
-            ].filter(Boolean).join(' ');
-            return `[${t.tabId}] "${t.title}" (${domain}) [win:${t.windowId}]${group}${flags ? ' ' + flags : ''}`;
-          }).join('\n');
-
-          // Build group list (for rename-group — AI needs groupIds)
-          const groupMap = new Map<number, { title: string; color: string; count: number }>();
-          for (const t of tabs) {
-            if (t.groupId) {
-              const g = groupMap.get(t.groupId);
-              if (g) g.count++;
-              else groupMap.set(t.groupId, { title: t.groupTitle ?? '', color: t.groupColor ?? '', count: 1 });
-            }
-          }
-          const groupListString = groupMap.size > 0
-            ? '\n\nTab groups: ' + [...groupMap.entries()].map(([id, g]) => `[groupId:${id}] "${g.title}" (${g.color}, ${g.count} tabs)`).join(', ')
-            : '';
-
-          // Build window list
-          const windowListString = windows && windows.length > 0
-            ? '\n\nWindows: ' + windows.map((w) => `[win:${w.windowId}] (${w.tabCount} tabs${w.activeTabTitle ? `, active: "${w.activeTabTitle}"` : ''})`).join(', ')
-            : '';
-
-          const systemPrompt = `You are a browser tab manager AI. The user has these open browser tabs:\n${tabListString}${groupListString}${windowListString}\n\nRespond ONLY with a JSON object with this exact structure: {"message": "short friendly confirmation max 15 words", "actions": [...]}\n\nAvailable action types:\n- {"type":"group-tabs","tabIds":[number],"title":"string","color":"blue|cyan|green|yellow|orange|red|pink|purple|grey"} // groups EXISTING tabs\n- {"type":"open-urls-in-group","urls":["string"],"title":"string","color":"blue|cyan|green|yellow|orange|red|pink|purple|grey"} // opens NEW URLs and groups them\n- {"type":"close-tab","tabId":number}\n- {"type":"close-tabs","tabIds":[number]}\n- {"type":"close-by-domain","domain":"string","keepTabId":number|null} // closes all tabs from a domain; set keepTabId to spare one\n- {"type":"open-url","url":"string"} // opens a single new tab\n- {"type":"pin-tab","tabId":number,"pinned":boolean}\n- {"type":"mute-tab","tabId":number,"muted":boolean}\n- {"type":"bookmark-tab","tabId":number,"folder":"string (optional)"}\n- {"type":"duplicate-tab","tabId":number}\n- {"type":"switch-tab","tabId":number}\n- {"type":"move-to-new-window","tabId":number}\n- {"type":"reload-tab","tabId":number}\n- {"type":"ungroup-tabs","tabIds":[number]}\n- {"type":"rename-group","groupId":number,"title":"string (optional)","color":"blue|cyan|green|yellow|orange|red|pink|purple|grey (optional)"} // use exact groupId from the group list above\n- {"type":"split-view","tabId1":number,"tabId2":number}\n- {"type":"merge-windows"}\n- {"type":"focus-window","windowId":number} // bring a window to front; use exact windowId from the window list above\n- {"type":"discard-tabs","tabIds":[number]} // suspend/hibernate tabs to free memory without closing them\n- {"type":"reopen-last-closed"}\n- {"type":"create-workspace","name":"string"}\n\nIMPORTANT RULES:\n1. When user asks to open NEW URLs and group them, use open-urls-in-group (NOT open-url + group-tabs).\n2. Use group-tabs only to group tabs that already exist in the tab list above.\n3. Use create-workspace (NOT group-tabs) when user wants to save a workspace.\n4. Use discard-tabs (NOT close-tabs) when user asks to free memory, suspend, or hibernate tabs.\n5. Use rename-group with the exact groupId from the group list. Include title and/or color as needed.\n6. Use focus-window with the exact windowId from the window list.\n7. Use close-by-domain for "close all [site] tabs" requests.\n8. Use exact tabIds from the tab list. Add https:// to URLs if missing.\n9. Return empty actions array if nothing to do.`;
-
-          const requestBody = {
-            model: 'llama-3.3-70b-versatile',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: query },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.1,
-            max_tokens: 1024,
-          };
-
-          const res = await fetch(
-            'https://api.groq.com/openai/v1/chat/completions',
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
-              },
-              body: JSON.stringify(requestBody),
-            }
-          );
-
-          if (!res.ok) {
-            const errText = await res.text().catch(() => String(res.status));
-            sendResponse({ error: errText });
-            return;
-          }
-
-          const data = await res.json();
-          const text = data?.choices?.[0]?.message?.content;
-          if (!text) {
-            sendResponse({ error: 'empty-response' });
-            return;
+          let parsed: AgentReply = {};
+          let toolCalls: string[] = [];
+          if (resolveLlmProvider(settings).id === 'tabflow') {
+            // The server builds the prompt itself from what we send (no tools on this path)
+            parsed = await runServerAgent(settings, query, history, tabs, windows, sender.tab?.windowId);
+          } else {
+            ({ parsed, toolCalls } = await runLocalAgent(settings, query, history, tabs, windows, sender.tab?.windowId));
           }
 
-          const parsed = JSON.parse(text);
-          sendResponse({ success: true, message: parsed.message, actions: parsed.actions ?? [] });
+          const replyMessage = typeof parsed.message === 'string' ? parsed.message : '';
+          // Never trust the model's ids: check every action against what's actually open
+          const { actions, issues } = validateAgentActions(parsed.actions, await loadAgentContext());
+          // Carry the request and final answer (not the tool chatter) into the next turn
+          const nextHistory: ChatMessage[] = [
+            ...history,
+            { role: 'user', content: query },
+            { role: 'assistant', content: JSON.stringify({ message: replyMessage, actions }) },
+          ];
+          sendResponse({ success: true, message: replyMessage, actions, issues, toolCalls, history: nextHistory.slice(-MAX_AGENT_HISTORY) });
         } catch (err) {
-          sendResponse({ error: String(err) });
+          if (err instanceof LlmError && err.code === 'no-key') sendResponse({ error: 'no-key' });
+          else sendResponse({ error: err instanceof Error ? err.message : String(err) });
         }
       })();
       return true;
@@ -1065,13 +1194,38 @@ export default defineBackground(() => {
   // Snooze waker - check every minute for tabs to wake
   chrome.alarms.create('snooze-waker', { periodInMinutes: 1 });
 
+  // Workspace sync - reconcile with the cloud every 5 minutes
+  chrome.alarms.create('workspace-sync', { periodInMinutes: 5 });
+
+  // Outbox - retry queued cloud writes (each entry backs off on its own schedule)
+  chrome.alarms.create('outbox-flush', { periodInMinutes: 1 });
+
   // Tab suspender - check every 5 minutes
   chrome.alarms.create('tab-suspender', { periodInMinutes: 5 });
   chrome.alarms.onAlarm.addListener(async (alarm) => {
+    if (alarm.name.startsWith(SCHEDULE_ALARM_PREFIX)) {
+      await runWorkspaceSchedule(alarm.name.slice(SCHEDULE_ALARM_PREFIX.length)).catch(() => {});
+      await armScheduleAlarms().catch(() => {});
+      return;
+    }
     if (alarm.name === 'snooze-waker') {
       await wakeExpiredTabs();
       return;
     }
+    if (alarm.name === 'outbox-flush') {
+      // Also report attention time of the visit in progress: MV3 workers get no onSuspend,
+      // and session storage doesn't survive a browser quit
+      await flushActiveTime().catch(() => {});
+      await flushOutbox().catch(() => {});
+      return;
+    }
+    if (alarm.name === 'workspace-sync') {
+      const result = await syncWorkspaces().catch(() => null);
+      if (result && (result.pulled > 0 || result.deleted > 0)) {
+        broadcastSpecific({ type: 'workspace-updated' });
+      }
+      return;
+    }
     if (alarm.name !== 'tab-suspender') return;
     const settings = await getSettings();
     if (!settings.autoSuspend) return;
@@ -1096,6 +1250,333 @@ export default defineBackground(() => {
   });
 });
 
+/**
+ * Open a workspace's tabs. `new-window` recreates each saved window; `missing` and
+ * `replace` work on the target window. Returns the windows that now hold the workspace.
+ */
+async function restoreWorkspaceTabs(
+  tabDefs: WorkspaceTab[], groupMeta: WorkspaceGroup[], mode: RestoreMode, targetWindowId?: number,
+): Promise<number[]> {
+  if (mode === 'new-window') {
+    // One new window per saved window, tabs in their saved order
+    const byWindow = new Map<number, WorkspaceTab[]>();
+    for (const def of tabDefs) {
+      const idx = def.windowIndex ?? 0;
+      byWindow.set(idx, [...(byWindow.get(idx) ?? []), def]);
+    }
+    const windowIds: number[] = [];
+    for (const defs of [...byWindow.entries()].sort(([a], [b]) => a - b).map(([, d]) => d)) {
+      const newWindow = await chrome.windows.create({ url: defs[0].url, focused: windowIds.length === 0 });
+      const windowId = newWindow.id!;
+      windowIds.push(windowId);
+      const firstTabId = newWindow.tabs?.[0]?.id;
+      if (defs[0].pinned && firstTabId) await chrome.tabs.update(firstTabId, { pinned: true }).catch(() => {});
+      const restored: RestoredTab[] = [{ def: defs[0], tabId: firstTabId }];
+      for (let i = 1; i < defs.length; i++) {
+        const t = await chrome.tabs.create({ url: defs[i].url, windowId, active: false, pinned: !!defs[i].pinned });
+        restored.push({ def: defs[i], tabId: t.id });
+      }
+      await groupRestoredTabs(windowId, restored, groupMeta);
+    }
+    if (windowIds.length > 0) await chrome.windows.update(windowIds[0], { focused: true }).catch(() => {});
+    return windowIds;
+  }
+
+  // Restoring into one window: the saved window split no longer applies. `replace` only
+  // reuses tabs already in that window; other windows are never rearranged
+  const windowId = targetWindowId ?? (await chrome.windows.getLastFocused()).id!;
+  const openTabs = (await getOpenTabs()).filter((t) => mode !== 'replace' || t.windowId === windowId);
+  const diff = diffWorkspace(tabDefs, openTabs, windowId);
+
+  const restored: RestoredTab[] = [];
+  for (const def of diff.missing) {
+    const t = await chrome.tabs.create({ url: def.url, windowId, active: false, pinned: !!def.pinned });
+    restored.push({ def, tabId: t.id });
+  }
+
+  if (mode === 'replace') {
+    // The window becomes exactly the workspace: keep its matching tabs, put everything
+    // in workspace order, then close the rest
+    for (const { tab, openTabId } of diff.alreadyOpen) {
+      await chrome.tabs.update(openTabId, { pinned: !!tab.pinned }).catch(() => {});
+      restored.push({ def: tab, tabId: openTabId });
+    }
+    const position = new Map(tabDefs.map((def, i) => [def, i]));
+    const ordered = restored
+      .filter((r): r is { def: WorkspaceTab; tabId: number } => r.tabId !== undefined)
+      .sort((a, b) => position.get(a.def)! - position.get(b.def)!);
+    // Pinned tabs must stay ahead of unpinned ones, so move each set separately
+    const pinnedIds = ordered.filter((r) => r.def.pinned).map((r) => r.tabId);
+    const unpinnedIds = ordered.filter((r) => !r.def.pinned).map((r) => r.tabId);
+    if (pinnedIds.length > 0) await chrome.tabs.move(pinnedIds, { windowId, index: 0 }).catch(() => {});
+    if (unpinnedIds.length > 0) await chrome.tabs.move(unpinnedIds, { windowId, index: -1 }).catch(() => {});
+    const extraIds = diff.extra.map((t) => t.tabId);
+    if (extraIds.length > 0) await chrome.tabs.remove(extraIds).catch(() => {});
+  }
+  await groupRestoredTabs(windowId, restored, groupMeta);
+  return [windowId];
+}
+
+/**
+ * Save a workspace's current tabs and close them. Only windows TabFlow opened for it this
+ * session are captured and closed; with none, nothing is closed, since matching tabs
+ * elsewhere may be open for other work. Windows in `keepWindowIds` (e.g. the ones a schedule
+ * just opened for another workspace) are never touched.
+ */
+async function saveAndCloseWorkspace(workspaceId: string, keepWindowIds: number[] = []) {
+  const tracked = await getWorkspaceWindows(workspaceId);
+  const live = (await chrome.windows.getAll()).map((w) => w.id);
+  const windowIds = tracked.filter((id) => live.includes(id) && !keepWindowIds.includes(id));
+
+  if (windowIds.length > 0) {
+    const { tabs, groups } = await captureWorkspace(windowIds);
+    if (tabs.length > 0) await updateWorkspace(workspaceId, tabs, groups);
+    for (const id of windowIds) await chrome.windows.remove(id).catch(() => {});
+  }
+  await setWorkspaceWindows(workspaceId, []);
+}
+
+// AI agent: read-only tool calls allowed per request, and turns kept for follow-ups
+const MAX_AGENT_TOOL_CALLS = 4;
+const MAX_AGENT_HISTORY = 12;
+const MIN_AGENT_TAB_TOKENS = 500; // always list a few tabs, even if the rest of the prompt is over budget
+const MAX_SERVER_HISTORY_CHARS = 8000; // per message, the TabFlow server's limit
+const MAX_SERVER_TABS = 1000; // likewise
+const MAX_SERVER_WORKSPACES = 200; // likewise
+
+type AgentReply = { tool?: unknown; args?: unknown; message?: unknown; actions?: unknown };
+
+/** Rank the tabs for the request and keep what fits the token budget beside the rest of the prompt. */
+async function compileAgentTabs(
+  settings: TabFlowSettings,
+  query: string,
+  history: ChatMessage[],
+  tabs: TabInfo[],
+  fixedPrompt: string,
+  currentWindowId: number | undefined,
+) {
+  const [frecency, notesMap] = await Promise.all([getFrecencyMap(), getNotesMap()]);
+  const fixedTokens = estimateTokens(fixedPrompt) + estimateTokens(query) + history.reduce((n, m) => n + estimateTokens(m.content), 0);
+  return compileTabList(tabs, query, {
+    budgetTokens: Math.max(settings.aiTokenBudget - fixedTokens, MIN_AGENT_TAB_TOKENS),
+    currentWindowId,
+    frecency,
+    notesMap,
+  });
+}
+
+/**
+ * One agent turn on the TabFlow server, which builds the prompt itself from the same shared
+ * definition. Tabs go ranked and trimmed like the local prompt, with domains instead of URLs.
+ */
+async function runServerAgent(
+  settings: TabFlowSettings,
+  query: string,
+  history: ChatMessage[],
+  tabs: TabInfo[],
+  windows: Array<{ windowId: number; tabCount: number; activeTabTitle?: string }> | undefined,
+  currentWindowId: number | undefined,
+): Promise<AgentReply> {
+  const clippedHistory = history.map((m) => ({ ...m, content: m.content.slice(0, MAX_SERVER_HISTORY_CHARS) }));
+  const workspaces = (await getWorkspaces()).map((w) => ({ name: w.name, tabCount: w.tabs.length }));
+  const fixedPrompt = buildAgentPrompt({ tabList: '', tabs, windows: windows ?? [], workspaces, now: new Date().toISOString() });
+  const tabList = await compileAgentTabs(settings, query, clippedHistory, tabs, fixedPrompt, currentWindowId);
+  const listed = tabList.tabs.slice(0, MAX_SERVER_TABS);
+  const reply = await completeAgentViaServer({
+    query,
+    history: clippedHistory,
+    tabs: listed.map(({ tabId, windowId, title, url, isActive, isPinned, isMuted, isAudible, groupId, groupTitle, groupColor }) =>
+      ({ tabId, windowId, title, domain: domainOf(url), isActive, isPinned, isMuted, isAudible, groupId, groupTitle, groupColor })),
+    omittedTabs: tabs.length - listed.length,
+    windows: windows ?? [],
+    workspaces: workspaces.slice(0, MAX_SERVER_WORKSPACES),
+  });
+  return parseJsonReply(reply);
+}
+
+/**
+ * One agent turn on the user's own provider: build the prompt here and let the model call
+ * read-only tools a few times before it answers.
+ */
+async function runLocalAgent(
+  settings: TabFlowSettings,
+  query: string,
+  history: ChatMessage[],
+  tabs: TabInfo[],
+  windows: Array<{ windowId: number; tabCount: number; activeTabTitle?: string }> | undefined,
+  currentWindowId: number | undefined,
+): Promise<{ parsed: AgentReply; toolCalls: string[] }> {
+  const workspaces = (await getWorkspaces()).map((w) => ({ name: w.name, tabCount: w.tabs.length }));
+  const buildPrompt = (tabList: string) => buildAgentPrompt({
+    tabList,
+    tabs,
+    windows: windows ?? [],
+    workspaces,
+    now: new Date().toString(),
+    tools: describeAgentTools(),
+  });
+  const tabList = await compileAgentTabs(settings, query, history, tabs, buildPrompt(''), currentWindowId);
+  const systemPrompt = buildPrompt(tabList.text);
+
+  // Tool loop: the model may read (never change) state a few times before answering
+  const messages: ChatMessage[] = [...history, { role: 'user', content: query }];
+  const toolCalls: string[] = [];
+  let parsed: AgentReply = {};
+  let reply = '';
+  for (let step = 0; step <= MAX_AGENT_TOOL_CALLS; step++) {
+    reply = await completeChat(settings, {
+      system: systemPrompt,
+      messages,
+      json: true,
+      temperature: 0.1,
+      maxTokens: 1024,
+    });
+    parsed = parseJsonReply(reply);
+    if (parsed.tool === undefined) break;
+
+    messages.push({ role: 'assistant', content: reply });
+    if (step === MAX_AGENT_TOOL_CALLS) {
+      parsed = { message: 'I needed more lookups than allowed — try a more specific request.', actions: [] };
+      break;
+    }
+    const result = await runAgentTool(parsed.tool, parsed.args);
+    toolCalls.push(String(parsed.tool));
+    const last = step === MAX_AGENT_TOOL_CALLS - 1 ? ' No more tools are available: reply with the final {"message","actions"} object now.' : '';
+    messages.push({ role: 'user', content: `Tool result (${String(parsed.tool)}): ${result}${last}` });
+  }
+  return { parsed, toolCalls };
+}
+
+// Live workspace saves are debounced per window: a burst of tab events saves once
+const LIVE_SAVE_DELAY_MS = 2000;
+const liveSaveTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function scheduleLiveSave(windowId: number | undefined) {
+  if (windowId === undefined || windowId === chrome.windows.WINDOW_ID_NONE) return;
+  clearTimeout(liveSaveTimers.get(windowId));
+  liveSaveTimers.set(windowId, setTimeout(() => {
+    liveSaveTimers.delete(windowId);
+    saveLiveWindow(windowId).catch(() => {});
+  }, LIVE_SAVE_DELAY_MS));
+}
+
+async function saveLiveWindow(windowId: number) {
+  const bindings = await getLiveBindings();
+  let saved = false;
+  for (const [workspaceId, binding] of Object.entries(bindings)) {
+    // Groups can be dragged between windows, so check every attached group binding
+    if (binding.windowId === null || (binding.kind === 'window' && binding.windowId !== windowId)) continue;
+    if (await saveLiveWorkspace(workspaceId, binding)) saved = true;
+  }
+  if (saved) broadcastSpecific({ type: 'workspace-updated' });
+}
+
+/**
+ * Capture a live workspace's window or group into it. Skips empty captures (the window is
+ * going away) and unchanged content; drops the binding if the workspace was deleted.
+ */
+async function saveLiveWorkspace(workspaceId: string, binding: LiveBinding, { recordVersion = false } = {}): Promise<boolean> {
+  const ws = (await getWorkspaces()).find((w) => w.id === workspaceId);
+  if (!ws) {
+    await setLiveBinding(workspaceId, null);
+    return false;
+  }
+  // Group may have been closed between the event and now
+  const snapshot = await captureLiveBinding(binding).catch(() => null);
+  if (!snapshot || snapshot.tabs.length === 0) return false;
+  if (sameWorkspaceContent(ws, { name: ws.name, ...snapshot })) return false;
+  await updateWorkspace(workspaceId, snapshot.tabs, snapshot.groups, { recordVersion });
+  return true;
+}
+
+async function reattachLiveWorkspace(workspaceId: string, windowId: number) {
+  const binding = (await getLiveBindings())[workspaceId];
+  if (!binding || binding.windowId !== null) return;
+  if (binding.kind === 'window') {
+    await setLiveBinding(workspaceId, { kind: 'window', windowId, groupId: null });
+    return;
+  }
+  // Group workspaces come back as a single restored group
+  const [group] = await chrome.tabGroups.query({ windowId });
+  if (group) await setLiveBinding(workspaceId, { kind: 'group', windowId, groupId: group.id });
+}
+
+/** Fire a schedule: open its workspace, then save-and-close the other one if set. */
+async function runWorkspaceSchedule(scheduleId: string) {
+  const schedule = (await getSchedules()).find((s) => s.id === scheduleId);
+  if (!schedule?.enabled) return;
+
+  const workspaces = await getWorkspaces();
+  const toOpen = workspaces.find((w) => w.id === schedule.openWorkspaceId);
+  let openedWindowIds: number[] = [];
+  if (toOpen) {
+    const tabs = toOpen.tabs.filter((t) => isRestorableUrl(t.url));
+    if (tabs.length > 0) {
+      openedWindowIds = await restoreWorkspaceTabs(tabs, toOpen.groups ?? [], 'new-window');
+      await setWorkspaceWindows(toOpen.id, openedWindowIds);
+    }
+  }
+  // Close after opening, so the browser never ends up with zero windows — but leave the
+  // windows just opened alone, even where the two workspaces share URLs
+  if (schedule.closeWorkspaceId && schedule.closeWorkspaceId !== schedule.openWorkspaceId) {
+    await saveAndCloseWorkspace(schedule.closeWorkspaceId, openedWindowIds);
+    syncWorkspaces().catch(() => {});
+  }
+  broadcastUpdate();
+}
+
+interface RestoredTab {
+  def: WorkspaceTab;
+  tabId: number | undefined;
+}
+
+async function getOpenTabs(): Promise<OpenTab[]> {
+  const tabs = await chrome.tabs.query({});
+  return tabs
+    .filter((t) => t.id !== undefined && t.url)
+    .map((t) => ({ tabId: t.id!, windowId: t.windowId, url: t.url!, title: t.title || '', faviconUrl: t.favIconUrl || '' }));
+}
+
+/**
+ * Recreate the workspace's tab groups around restored tabs, in saved order and with their
+ * collapsed state. Tabs join an existing group in the window with the same title and
+ * color, so restoring into a window doesn't split it. Pinned tabs can't be grouped.
+ */
+async function groupRestoredTabs(windowId: number, restored: RestoredTab[], groupMeta: WorkspaceGroup[]) {
+  const groupMap = new Map<string, { title: string; color: string; windowIndex: number; tabIds: number[] }>();
+  for (const { def, tabId } of restored) {
+    if (def.groupTitle !== undefined && def.groupColor && tabId && !def.pinned) {
+      const key = `${def.windowIndex ?? 0}::${def.groupTitle}::${def.groupColor}`;
+      const existing = groupMap.get(key);
+      if (existing) existing.tabIds.push(tabId);
+      else groupMap.set(key, { title: def.groupTitle, color: def.groupColor, windowIndex: def.windowIndex ?? 0, tabIds: [tabId] });
+    }
+  }
+
+  // Update MRU immediately so the HUD shows group names on first open without
+  // waiting for onUpdated propagation.
+  for (const { title, color, windowIndex, tabIds } of groupMap.values()) {
+    const [existingGroup] = await chrome.tabGroups
+      .query({ windowId, title, color: color as chrome.tabGroups.ColorEnum })
+      .catch(() => []);
+    let groupId: number;
+    if (existingGroup) {
+      groupId = await chrome.tabs.group({ tabIds, groupId: existingGroup.id });
+    } else {
+      groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
+      const meta = groupMeta.find((g) => g.windowIndex === windowIndex && g.title === title && g.color === color);
+      await chrome.tabGroups.update(groupId, {
+        title,
+        color: color as chrome.tabGroups.ColorEnum,
+        collapsed: meta?.collapsed ?? false,
+      }).catch(() => {});
+    }
+    for (const tabId of tabIds) {
+      await updateTab(tabId, { groupId, groupTitle: title, groupColor: color }).catch(() => {});
+    }
+  }
+}
+
 async function captureThumbnail(tabId: number, windowId: number) {
   // Block captures while the HUD is visible OR during its 150ms fade-out animation.
   // hudHideTime adds a 250ms grace period after any hide event so we never snapshot
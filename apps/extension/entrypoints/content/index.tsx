@@ -1,6 +1,8 @@
 import './style.css';
 import { HudOverlay } from '@/components/hud/HudOverlay';
 import ReactDOM from 'react-dom/client';
+import { getSettings } from '@/lib/settings';
+import { extractPageContent, isPageContentAllowed } from '@/lib/page-content';
 
 export default defineContentScript({
   matches: ['<all_urls>'],
@@ -11,10 +13,20 @@ export default defineContentScript({
     const notifyLoaded = () => {
       chrome.runtime.sendMessage({ type: 'page-loaded' }).catch(() => {});
     };
-    if (document.readyState === 'complete') {
+    // Summarize the page for semantic search once client-rendered content has settled
+    const sendPageContent = async () => {
+      if (!isPageContentAllowed(location.href, await getSettings())) return;
+      const content = extractPageContent(document);
+      if (content) chrome.runtime.sendMessage({ type: 'page-content', payload: content }).catch(() => {});
+    };
+    const onLoaded = () => {
       setTimeout(notifyLoaded, 300); // brief delay for paint
+      setTimeout(() => sendPageContent().catch(() => {}), 2000);
+    };
+    if (document.readyState === 'complete') {
+      onLoaded();
     } else {
-      window.addEventListener('load', () => setTimeout(notifyLoaded, 300), { once: true });
+      window.addEventListener('load', onLoaded, { once: true });
     }
 
     const ui = await createShadowRootUi(ctx, {
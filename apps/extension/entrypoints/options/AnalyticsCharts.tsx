@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { getTopDomains, getTimeseries, type DomainStat, type TimeseriesBucket } from '@/lib/api-client';
+
+type Range = 'today' | 'week' | 'month';
+
+const RANGES: Array<{ id: Range; label: string; days: number; granularity: 'hour' | 'day' }> = [
+  { id: 'today', label: 'Today', days: 1, granularity: 'hour' },
+  { id: 'week', label: '7 days', days: 7, granularity: 'day' },
+  { id: 'month', label: '30 days', days: 30, granularity: 'day' },
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Bucket key in local time, matching the server's "YYYY-MM-DDTHH:00". */
+function bucketKey(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:00`;
+}
+
+/** Every bucket in the range, so quiet hours/days show as empty bars instead of disappearing. */
+function emptyBuckets(from: Date, days: number, granularity: 'hour' | 'day'): Date[] {
+  const count = granularity === 'hour' ? 24 : days;
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(from);
+    if (granularity === 'hour') d.setHours(i);
+    else d.setDate(from.getDate() + i);
+    return d;
+  });
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Time per day (or hour) for all sites or one domain, from the API's analytics time series. */
+export function AnalyticsCharts() {
+  const [domains, setDomains] = useState<DomainStat[]>([]);
+  const [domain, setDomain] = useState<string>('');
+  const [range, setRange] = useState<Range>('week');
+  const [buckets, setBuckets] = useState<TimeseriesBucket[] | null>(null);
+  const [error, setError] = useState(false);
+
+  const { days, granularity } = RANGES.find((r) => r.id === range)!;
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - (days - 1));
+
+  useEffect(() => {
+    getTopDomains(10).then(setDomains).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setBuckets(null);
+    setError(false);
+    const to = new Date(from);
+    to.setDate(from.getDate() + days);
+    let stale = false; // a quicker later request must not be overwritten by this one
+    getTimeseries({ granularity, from, to, domain: domain || undefined })
+      .then((b) => { if (!stale) setBuckets(b); })
+      .catch(() => { if (!stale) setError(true); });
+    return () => { stale = true; };
+    // `from` is derived from `range`, so it's covered by that dependency
+  }, [range, domain]);
+
+  if (error) return <p className="text-sm text-white/30">Couldn't load analytics — is the API reachable?</p>;
+
+  const byKey = new Map((buckets ?? []).map((b) => [b.start, b]));
+  const series = emptyBuckets(from, days, granularity).map((d) => ({ date: d, bucket: byKey.get(bucketKey(d)) }));
+  const maxMs = Math.max(1, ...series.map((s) => s.bucket?.durationMs ?? 0));
+  const totalMs = series.reduce((n, s) => n + (s.bucket?.durationMs ?? 0), 0);
+  const totalVisits = series.reduce((n, s) => n + (s.bucket?.visits ?? 0), 0);
+
+  const label = (d: Date) => granularity === 'hour'
+    ? (d.getHours() % 6 === 0 ? `${d.getHours()}:00` : '')
+    : (days <= 7 || d.getDate() % 5 === 1 ? d.toLocaleDateString([], days <= 7 ? { weekday: 'short' } : { month: 'short', day: 'numeric' }) : '');
+
+  const selectClass = 'bg-white/[0.06] border border-white/10 rounded-md px-2 py-1 text-xs text-white/80 outline-none focus:border-cyan-400/50';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <select value={domain} onChange={(e) => setDomain(e.target.value)} className={selectClass}>
+          <option value="">All sites</option>
+          {domains.map((d) => <option key={d.domain} value={d.domain}>{d.domain}</option>)}
+        </select>
+        <div className="flex items-center gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                range === r.id ? 'bg-cyan-400/20 text-cyan-300' : 'text-white/40 hover:bg-white/[0.06]'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-white/80">
+        {buckets === null ? 'Loading…' : (
+          <>
+            {formatDuration(totalMs)}
+            <span className="text-white/40"> on {domain || 'all sites'} · {totalVisits} visit{totalVisits === 1 ? '' : 's'}</span>
+          </>
+        )}
+      </p>
+
+      <div className="flex items-end gap-[3px] h-32">
+        {series.map(({ date, bucket }) => (
+          <div key={date.getTime()} className="flex-1 h-full flex flex-col justify-end group relative">
+            <div
+              className="rounded-sm bg-cyan-400/50 group-hover:bg-cyan-300/80 transition-colors"
+              style={{ height: `${((bucket?.durationMs ?? 0) / maxMs) * 100}%`, minHeight: bucket ? 2 : 0 }}
+            />
+            <span className="absolute bottom-full mb-1 left-1/2 -translate-x-1/2 hidden group-hover:block whitespace-nowrap px-1.5 py-0.5 rounded bg-black/80 text-[10px] text-white/80">
+              {granularity === 'hour' ? `${date.getHours()}:00` : date.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+              {' · '}{formatDuration(bucket?.durationMs ?? 0)}, {bucket?.visits ?? 0} visits
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-[3px] -mt-2">
+        {series.map(({ date }) => (
+          <span key={date.getTime()} className="flex-1 text-[9px] text-white/30 text-center overflow-visible whitespace-nowrap">
+            {label(date)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
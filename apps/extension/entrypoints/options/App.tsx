@@ -2,19 +2,55 @@ import { useState, useEffect, useRef } from 'react';
 import { getSettings, saveSettings, type TabFlowSettings } from '@/lib/settings';
 import { getWorkspaces, deleteWorkspace, type Workspace } from '@/lib/workspaces';
 import { exportData, importData, downloadJson, type TabFlowExport } from '@/lib/export-import';
+import { getSyncState, getConflicts, type WorkspaceConflict } from '@/lib/sync';
+import { SchedulesSection } from './SchedulesSection';
+import { AnalyticsCharts } from './AnalyticsCharts';
+import { CategoriesSection } from './CategoriesSection';
 
 export function App() {
   const [settings, setSettings] = useState<TabFlowSettings | null>(null);
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [saved, setSaved] = useState(false);
   const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
+  const [conflicts, setConflicts] = useState<WorkspaceConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const refreshSync = async () => {
+    const [state, pending] = await Promise.all([getSyncState(), getConflicts()]);
+    setLastSyncAt(state.lastSyncAt);
+    setConflicts(pending);
+  };
+
   useEffect(() => {
     getSettings().then(setSettings);
     getWorkspaces().then(setWorkspaces);
+    refreshSync();
   }, []);
 
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    setSyncStatus(null);
+    try {
+      const res = await chrome.runtime.sendMessage({ type: 'sync-workspaces' });
+      if (!res?.success) setSyncStatus('Sync failed — is the API reachable?');
+      else if (!res.result) setSyncStatus('Sign in from the HUD to sync workspaces');
+      else setSyncStatus(`Pulled ${res.result.pulled}, pushed ${res.result.pushed}, removed ${res.result.deleted}`);
+    } finally {
+      setSyncing(false);
+      setWorkspaces(await getWorkspaces());
+      await refreshSync();
+    }
+  };
+
+  const handleResolve = async (id: string, keep: 'local' | 'remote') => {
+    await chrome.runtime.sendMessage({ type: 'resolve-sync-conflict', payload: { id, keep } });
+    setWorkspaces(await getWorkspaces());
+    await refreshSync();
+  };
+
   const update = async (changes: Partial<TabFlowSettings>) => {
     const updated = await saveSettings(changes);
     setSettings(updated);
@@ -202,6 +238,74 @@ export function App() {
           )}
         </Section>
 
+        {/* Workspace schedules */}
+        <Section title="Schedules">
+          <SchedulesSection workspaces={workspaces} />
+        </Section>
+
+        {/* Analytics */}
+        <Section title="Analytics">
+          <AnalyticsCharts />
+        </Section>
+
+        {/* Categories & weekly report */}
+        <Section title="Categories">
+          <CategoriesSection />
+        </Section>
+
+        {/* Cloud sync */}
+        <Section title="Cloud Sync">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-white/80">Workspaces</p>
+              <p className="text-xs text-white/40 mt-0.5">
+                {lastSyncAt ? `Last synced ${new Date(lastSyncAt).toLocaleString()}` : 'Not synced yet'}
+              </p>
+            </div>
+            <button
+              onClick={handleSyncNow}
+              disabled={syncing}
+              className="px-4 py-2 rounded-lg bg-cyan-400/15 border border-cyan-400/25 text-cyan-300 text-xs font-medium hover:bg-cyan-400/25 disabled:opacity-40 transition-colors"
+            >
+              {syncing ? 'Syncing…' : 'Sync now'}
+            </button>
+          </div>
+          {syncStatus && <p className="mt-2 text-xs text-cyan-300/70">{syncStatus}</p>}
+          {conflicts.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-white/[0.06] space-y-2">
+              <p className="text-xs text-amber-300/80">
+                {conflicts.length} workspace{conflicts.length === 1 ? ' was' : 's were'} changed on two devices. Choose which copy to keep:
+              </p>
+              {conflicts.map((c) => (
+                <div key={c.id} className="py-2 px-3 rounded-lg bg-white/[0.03]">
+                  <p className="text-sm text-white/80">{c.name}</p>
+                  <div className="flex items-center justify-between gap-2 mt-1.5">
+                    <p className="text-[11px] text-white/30">
+                      This device: {c.local ? `${c.local.tabs.length} tabs` : 'deleted'}
+                      {' · '}
+                      Cloud: {c.remote ? `${c.remote.tabs.length} tabs` : 'deleted'}
+                    </p>
+                    <div className="flex items-center gap-1.5 shrink-0">
+                      <button
+                        onClick={() => handleResolve(c.id, 'local')}
+                        className="px-2.5 py-1 rounded-md text-xs text-cyan-300/80 hover:bg-cyan-400/10 transition-colors"
+                      >
+                        Keep this device
+                      </button>
+                      <button
+                        onClick={() => handleResolve(c.id, 'remote')}
+                        className="px-2.5 py-1 rounded-md text-xs text-white/50 hover:bg-white/[0.06] transition-colors"
+                      >
+                        Keep cloud
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Section>
+
         {/* Export / Import */}
         <Section title="Data">
           <div className="space-y-4">
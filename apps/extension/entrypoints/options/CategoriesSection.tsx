@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { getTopDomains } from '@/lib/api-client';
+import { getLocalDomainVisits } from '@/lib/frecency';
+import {
+  getCategories, saveCategories, createCategorizer, normalizePattern,
+  DEFAULT_CATEGORIES, OTHER_CATEGORY, type Category, type CategoryKind,
+} from '@/lib/categories';
+
+const KINDS: Array<{ id: CategoryKind; label: string; bar: string; text: string }> = [
+  { id: 'productive', label: 'Productive', bar: 'bg-emerald-400/60', text: 'text-emerald-300' },
+  { id: 'neutral', label: 'Neutral', bar: 'bg-white/25', text: 'text-white/50' },
+  { id: 'distracting', label: 'Distracting', bar: 'bg-rose-400/60', text: 'text-rose-300' },
+];
+
+const MAX_REPORT_DOMAINS = 200;
+
+interface DomainUsage {
+  domain: string;
+  amount: number; // ms from the API, all-time visits from local data
+}
+
+interface Report {
+  source: 'api' | 'local';
+  domains: DomainUsage[];
+}
+
+/** Monday 00:00 local time of the week `weeksAgo` weeks back. */
+function weekStart(weeksAgo: number): Date {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7) - weeksAgo * 7);
+  return d;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Weekly time per category with a productive/distracting split, plus the rules editor.
+ * Time comes from the API's analytics buckets; without the API, this week falls back to
+ * local frecency data, which only keeps lifetime visit counts — so it shows all-time visits
+ * to the sites opened this week, labelled as such.
+ */
+export function CategoriesSection() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [weeksAgo, setWeeksAgo] = useState(0);
+  const [report, setReport] = useState<Report | null>(null);
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+  }, []);
+
+  useEffect(() => {
+    setReport(null);
+    const from = weekStart(weeksAgo);
+    const to = new Date(from);
+    to.setDate(from.getDate() + 7);
+    let stale = false;
+    getTopDomains(MAX_REPORT_DOMAINS, { from, to })
+      .then((d) => ({ source: 'api' as const, domains: d.map((s) => ({ domain: s.domain, amount: Number(s.total_duration_ms) })) }))
+      .catch(async () => weeksAgo === 0
+        ? { source: 'local' as const, domains: (await getLocalDomainVisits(from.getTime())).map((s) => ({ domain: s.domain, amount: s.visits })) }
+        : { source: 'local' as const, domains: [] })
+      .then((r) => { if (!stale) setReport(r); })
+      .catch(() => {});
+    return () => { stale = true; };
+  }, [weeksAgo]);
+
+  const persist = async (next: Category[]) => {
+    setCategories(await saveCategories(next));
+  };
+
+  const updateCategory = (id: string, changes: Partial<Category>) => {
+    persist(categories.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const handleAdd = () => {
+    persist([...categories, { id: crypto.randomUUID(), name: 'New category', kind: 'neutral', patterns: [] }]);
+  };
+
+  // Roll domains up into categories and kinds
+  const categorize = createCategorizer(categories);
+  const byCategory = new Map<string, { category: Category; amount: number; domains: DomainUsage[] }>();
+  for (const usage of report?.domains ?? []) {
+    const category = categorize(usage.domain);
+    const entry = byCategory.get(category.id) ?? { category, amount: 0, domains: [] };
+    entry.amount += usage.amount;
+    entry.domains.push(usage);
+    byCategory.set(category.id, entry);
+  }
+  const rows = [...byCategory.values()].sort((a, b) => b.amount - a.amount);
+  const total = rows.reduce((n, r) => n + r.amount, 0);
+  const byKind = KINDS.map((k) => ({ ...k, amount: rows.filter((r) => r.category.kind === k.id).reduce((n, r) => n + r.amount, 0) }));
+  const format = (amount: number) => (report?.source === 'local' ? `${amount} visit${amount === 1 ? '' : 's'}` : formatDuration(amount));
+
+  const selectClass = 'bg-white/[0.06] border border-white/10 rounded-md px-2 py-1 text-xs text-white/80 outline-none focus:border-cyan-400/50';
+
+  return (
+    <div className="space-y-6">
+      {/* Weekly report */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-white/80">
+            {report === null ? 'Loading…' : total === 0 ? 'No activity recorded' : (
+              <>
+                {format(total)}
+                <span className="text-white/40"> {report.source === 'local' ? 'all-time visits to sites opened this week (local data — connect the API for time)' : weeksAgo === 0 ? 'this week' : 'last week'}</span>
+              </>
+            )}
+          </p>
+          <div className="flex items-center gap-1">
+            {['This week', 'Last week'].map((label, i) => (
+              <button
+                key={label}
+                onClick={() => setWeeksAgo(i)}
+                className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                  weeksAgo === i ? 'bg-cyan-400/20 text-cyan-300' : 'text-white/40 hover:bg-white/[0.06]'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {total > 0 && (
+          <>
+            <div className="flex h-2 rounded-full overflow-hidden bg-white/[0.04]">
+              {byKind.map((k) => k.amount > 0 && (
+                <div key={k.id} className={k.bar} style={{ width: `${(k.amount / total) * 100}%` }} />
+              ))}
+            </div>
+            <div className="flex gap-4">
+              {byKind.map((k) => (
+                <span key={k.id} className={`text-xs ${k.text}`}>
+                  {k.label} {Math.round((k.amount / total) * 100)}%
+                  <span className="text-white/30"> · {format(k.amount)}</span>
+                </span>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              {rows.map(({ category, amount, domains }) => (
+                <div key={category.id} className="py-2 px-3 rounded-lg bg-white/[0.03]">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className={KINDS.find((k) => k.id === category.kind)!.text}>{category.name}</span>
+                    <span className="text-white/60">{format(amount)}</span>
+                  </div>
+                  <p className="text-[11px] text-white/30 truncate mt-0.5">
+                    {domains.slice(0, 5).map((d) => d.domain).join(', ')}
+                    {domains.length > 5 && ` +${domains.length - 5} more`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-2">
+        <p className="text-xs text-white/40">
+          Domains match their subdomains too; add a path (google.com/maps) to match only part of a site.
+          Unmatched sites count as {OTHER_CATEGORY.name}.
+        </p>
+        {categories.map((category) => (
+          <div key={category.id} className="py-2.5 px-3 rounded-lg bg-white/[0.03] space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                key={category.name} // uncontrolled; remount when reset from outside
+                defaultValue={category.name}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== category.name && updateCategory(category.id, { name: e.target.value.trim() })}
+                className={`${selectClass} flex-1`}
+              />
+              <select
+                value={category.kind}
+                onChange={(e) => updateCategory(category.id, { kind: e.target.value as CategoryKind })}
+                className={selectClass}
+              >
+                {KINDS.map((k) => <option key={k.id} value={k.id}>{k.label}</option>)}
+              </select>
+              <button
+                onClick={() => persist(categories.filter((c) => c.id !== category.id))}
+                className="text-xs text-white/30 hover:text-red-400 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+            <input
+              key={category.patterns.join(',')}
+              defaultValue={category.patterns.join(', ')}
+              placeholder="example.com, example.org/docs"
+              onBlur={(e) => {
+                const patterns = e.target.value.split(',').map(normalizePattern).filter(Boolean);
+                if (patterns.join(',') !== category.patterns.join(',')) updateCategory(category.id, { patterns });
+              }}
+              className={`${selectClass} w-full`}
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-3">
+          <button onClick={handleAdd} className="text-xs text-cyan-300/80 hover:text-cyan-300 transition-colors">
+            + Add category
+          </button>
+          <button
+            onClick={() => persist(DEFAULT_CATEGORIES)}
+            className="text-xs text-white/30 hover:text-white/60 transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import type { Workspace } from '@/lib/workspaces';
+import { getSchedules, saveSchedule, deleteSchedule, nextRunAt, type WorkspaceSchedule } from '@/lib/schedules';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/** Schedule editor for the options page: open a workspace at set times, optionally closing another. */
+export function SchedulesSection({ workspaces }: { workspaces: Workspace[] }) {
+  const [schedules, setSchedules] = useState<WorkspaceSchedule[]>([]);
+
+  useEffect(() => {
+    getSchedules().then(setSchedules);
+  }, []);
+
+  const persist = async (schedule: WorkspaceSchedule) => {
+    setSchedules(await saveSchedule(schedule));
+    chrome.runtime.sendMessage({ type: 'schedules-updated' }).catch(() => {});
+  };
+
+  const handleAdd = () => {
+    if (workspaces.length === 0) return;
+    persist({
+      id: crypto.randomUUID(),
+      openWorkspaceId: workspaces[0].id,
+      closeWorkspaceId: null,
+      days: WEEKDAYS,
+      time: '09:00',
+      enabled: true,
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    setSchedules(await deleteSchedule(id));
+    chrome.runtime.sendMessage({ type: 'schedules-updated' }).catch(() => {});
+  };
+
+  const toggleDay = (schedule: WorkspaceSchedule, day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : [...schedule.days, day].sort((a, b) => a - b);
+    persist({ ...schedule, days });
+  };
+
+  if (workspaces.length === 0) {
+    return <p className="text-sm text-white/30">Save a workspace first, then schedule it to open automatically.</p>;
+  }
+
+  const selectClass = 'bg-white/[0.06] border border-white/10 rounded-md px-2 py-1 text-xs text-white/80 outline-none focus:border-cyan-400/50';
+
+  return (
+    <div className="space-y-3">
+      {schedules.map((schedule) => {
+        const next = nextRunAt(schedule);
+        const missing = !workspaces.some((w) => w.id === schedule.openWorkspaceId);
+        return (
+          <div key={schedule.id} className={`py-3 px-3 rounded-lg bg-white/[0.03] space-y-2.5 ${schedule.enabled ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs text-white/40">Open</span>
+              <select
+                value={schedule.openWorkspaceId}
+                onChange={(e) => persist({ ...schedule, openWorkspaceId: e.target.value })}
+                className={selectClass}
+              >
+                {missing && <option value={schedule.openWorkspaceId}>(deleted workspace)</option>}
+                {workspaces.map((w) => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              <span className="text-xs text-white/40">at</span>
+              <input
+                type="time"
+                value={schedule.time}
+                onChange={(e) => e.target.value && persist({ ...schedule, time: e.target.value })}
+                className={selectClass}
+              />
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs text-white/40">Save &amp; close</span>
+              <select
+                value={schedule.closeWorkspaceId ?? ''}
+                onChange={(e) => persist({ ...schedule, closeWorkspaceId: e.target.value || null })}
+                className={selectClass}
+              >
+                <option value="">Nothing</option>
+                {workspaces
+                  .filter((w) => w.id !== schedule.openWorkspaceId)
+                  .map((w) => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={day}
+                    onClick={() => toggleDay(schedule, day)}
+                    className={`w-6 h-6 rounded-md text-[11px] font-medium transition-colors ${
+                      schedule.days.includes(day)
+                        ? 'bg-cyan-400/20 text-cyan-300 border border-cyan-400/30'
+                        : 'bg-white/[0.04] text-white/30 border border-white/[0.06] hover:text-white/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={() => persist({ ...schedule, enabled: !schedule.enabled })}
+                  className="px-2.5 py-1 rounded-md text-xs text-white/50 hover:bg-white/[0.06] transition-colors"
+                >
+                  {schedule.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleDelete(schedule.id)}
+                  className="px-2.5 py-1 rounded-md text-xs text-red-400/70 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <p className="text-[11px] text-white/30">
+              {next ? `Next: ${new Date(next).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}` : 'Not scheduled'}
+            </p>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={handleAdd}
+        className="px-4 py-2 rounded-lg bg-cyan-400/15 border border-cyan-400/25 text-cyan-300 text-xs font-medium hover:bg-cyan-400/25 transition-colors"
+      >
+        Add schedule
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import type { TabInfo } from '@/lib/types';
 import { getWorkspaces, saveWorkspace, deleteWorkspace, type Workspace } from '@/lib/workspaces';
+import { getPendingCount } from '@/lib/outbox';
+import { captureWorkspace, isRestorableUrl } from '@/lib/workspace-capture';
 
 function getDomain(url: string): string {
   try { return new URL(url).hostname.replace('www.', ''); }
@@ -22,6 +24,7 @@ export function App() {
   const [view, setView] = useState<'tabs' | 'workspaces'>('tabs');
   const [saving, setSaving] = useState(false);
   const [workspaceName, setWorkspaceName] = useState('');
+  const [pendingWrites, setPendingWrites] = useState(0);
 
   useEffect(() => {
     chrome.runtime.sendMessage({ type: 'get-tabs' }).then((response) => {
@@ -31,6 +34,7 @@ export function App() {
       }
     });
     getWorkspaces().then(setWorkspaces);
+    getPendingCount().then(setPendingWrites);
   }, []);
 
   const totalTabs = allTabs.length;
@@ -48,9 +52,9 @@ export function App() {
 
   const handleSaveWorkspace = async () => {
     if (!workspaceName.trim()) return;
-    const chromeTabs = await chrome.tabs.query({ currentWindow: true });
-    const tabData = chromeTabs.map((t) => ({ title: t.title || 'Untitled', url: t.url || '', faviconUrl: t.favIconUrl || '' }));
-    await saveWorkspace(workspaceName.trim(), tabData);
+    const currentWindow = await chrome.windows.getCurrent();
+    const { tabs, groups } = await captureWorkspace(currentWindow.id);
+    await saveWorkspace(workspaceName.trim(), tabs, groups);
     setWorkspaceName('');
     setSaving(false);
     setWorkspaces(await getWorkspaces());
@@ -59,9 +63,11 @@ export function App() {
   const handleRestoreWorkspace = async (id: string) => {
     const ws = workspaces.find((w) => w.id === id);
     if (!ws) return;
-    const urls = ws.tabs.map((t) => t.url).filter(Boolean);
-    if (urls.length > 0) {
-      chrome.runtime.sendMessage({ type: 'restore-workspace', urls, groups: ws.tabs });
+    const tabs = ws.tabs.filter((t) => isRestorableUrl(t.url));
+    if (tabs.length > 0) {
+      chrome.runtime.sendMessage({
+        type: 'restore-workspace', workspaceId: ws.id, urls: tabs.map((t) => t.url), groups: tabs, tabGroups: ws.groups,
+      });
     }
     window.close();
   };
@@ -171,6 +177,14 @@ export function App() {
               <kbd className="px-1.5 py-0.5 rounded bg-white/[0.08] font-mono text-white/40">Alt+Q</kbd>
               <span>for full switcher</span>
             </div>
+            {pendingWrites > 0 && (
+              <div
+                className="mt-1 text-center text-[10px] text-amber-400/60"
+                title="Changes made while TabFlow couldn't reach the cloud. They'll sync automatically."
+              >
+                {pendingWrites} {pendingWrites === 1 ? 'change' : 'changes'} waiting to sync
+              </div>
+            )}
           </div>
         </>
       ) : (
@@ -0,0 +1,170 @@
+/**
+ * Attention time per tab for analytics. The clock for the focused tab only runs while a
+ * browser window has focus and the user isn't idle or locked (an audible tab keeps it
+ * running through idle — that's someone watching a video). Visits are reported on tab
+ * switch, navigation and tab close, and a visit still in progress is flushed every minute
+ * (flushActiveTime) as a continuation, so long visits show up as they happen and a browser
+ * quit loses at most a minute.
+ *
+ * State lives in chrome.storage.session so a suspended worker picks up where it left off.
+ * Background only.
+ */
+import { sendOrQueue } from './outbox';
+
+export const IDLE_DETECTION_SECONDS = 60;
+const MIN_VISIT_MS = 1000; // ignore very short visits
+const STATE_KEY = 'tabflow_active_time';
+
+interface TrackedTab {
+  tabId: number;
+  url: string;
+  domain: string;
+  title: string;
+}
+
+interface ActiveTimeState {
+  tab: TrackedTab | null;
+  startedAt: number | null; // when this visit began
+  runningSince: number | null; // null while the clock is paused
+  accumulatedMs: number; // attention before the last pause
+  flushed: boolean; // part of this visit was already reported, so later reports are continuations
+  windowFocused: boolean;
+  idle: boolean;
+}
+
+const INITIAL_STATE: ActiveTimeState = {
+  tab: null,
+  startedAt: null,
+  runningSince: null,
+  accumulatedMs: 0,
+  flushed: false,
+  windowFocused: true,
+  idle: false,
+};
+
+function getDomain(url: string): string {
+  try { return new URL(url).hostname.replace('www.', ''); } catch { return ''; }
+}
+
+// Serializes read-modify-write of the state; events arrive faster than storage round-trips
+let lock: Promise<unknown> = Promise.resolve();
+function withState(fn: (state: ActiveTimeState) => ActiveTimeState | Promise<ActiveTimeState>): Promise<void> {
+  const run = lock.then(async () => {
+    const result = await chrome.storage.session.get(STATE_KEY);
+    const next = await fn({ ...INITIAL_STATE, ...result[STATE_KEY] });
+    await chrome.storage.session.set({ [STATE_KEY]: next });
+  });
+  lock = run.catch(() => {});
+  return run;
+}
+
+function shouldRun(state: ActiveTimeState): boolean {
+  return state.tab !== null && state.windowFocused && !state.idle;
+}
+
+/** Start or stop the clock to match focus/idle, stopping at `at` (backdated for idle). */
+function sync(state: ActiveTimeState, at = Date.now()): ActiveTimeState {
+  const run = shouldRun(state);
+  if (run && state.runningSince === null) return { ...state, runningSince: Date.now() };
+  if (!run && state.runningSince !== null) {
+    const stoppedAt = Math.max(at, state.runningSince);
+    return { ...state, runningSince: null, accumulatedMs: state.accumulatedMs + stoppedAt - state.runningSince };
+  }
+  return state;
+}
+
+function elapsed(state: ActiveTimeState, now = Date.now()): number {
+  return state.accumulatedMs + (state.runningSince !== null ? now - state.runningSince : 0);
+}
+
+/** Report the current visit's attention time and reset the clock (the tab stays tracked). */
+function report(state: ActiveTimeState): ActiveTimeState {
+  const now = Date.now();
+  const durationMs = elapsed(state, now);
+  const { tab } = state;
+  const send = !!tab && !!tab.domain && durationMs >= MIN_VISIT_MS;
+  if (send) {
+    sendOrQueue({
+      kind: 'visit',
+      visitId: crypto.randomUUID(),
+      url: tab.url,
+      domain: tab.domain,
+      title: tab.title,
+      durationMs,
+      startedAt: new Date(state.startedAt ?? now - durationMs).toISOString(),
+      ...(state.flushed ? { continued: true } : {}),
+    }).catch(() => {});
+  }
+  return {
+    ...state,
+    startedAt: now,
+    accumulatedMs: 0,
+    flushed: state.flushed || send,
+    runningSince: state.runningSince !== null ? now : null,
+  };
+}
+
+/** A tab became the one the user is looking at (or none, with null). */
+export function focusTab(tab: { tabId: number; url: string; title: string } | null): Promise<void> {
+  return withState((state) => {
+    if (tab && state.tab?.tabId === tab.tabId && state.tab.url === tab.url) return state; // same visit (e.g. window refocused)
+    const reported = report(state);
+    const tracked = tab ? { tabId: tab.tabId, url: tab.url, domain: getDomain(tab.url), title: tab.title } : null;
+    return sync({ ...reported, tab: tracked, runningSince: null, accumulatedMs: 0, flushed: false, startedAt: Date.now() });
+  });
+}
+
+/** URL or title change in a tab; a new URL in the tracked tab ends its visit. */
+export function tabUpdated(tabId: number, changes: { url?: string; title?: string }): Promise<void> {
+  return withState((state) => {
+    if (state.tab?.tabId !== tabId) return state;
+    if (changes.url !== undefined && changes.url !== state.tab.url) {
+      const reported = report(state);
+      return { ...reported, flushed: false, tab: { ...state.tab, url: changes.url, domain: getDomain(changes.url), title: changes.title ?? state.tab.title } };
+    }
+    return changes.title !== undefined ? { ...state, tab: { ...state.tab, title: changes.title } } : state;
+  });
+}
+
+/** The tracked tab closed: report it and stop tracking. */
+export function tabClosed(tabId: number): Promise<void> {
+  return withState((state) => {
+    if (state.tab?.tabId !== tabId) return state;
+    return sync({ ...report(state), tab: null, flushed: false });
+  });
+}
+
+/** Browser window focus: false when every window lost focus (another app, minimized). */
+export function setWindowFocused(focused: boolean): Promise<void> {
+  return withState((state) => sync({ ...state, windowFocused: focused }));
+}
+
+/** chrome.idle state change. Idle is detected after a delay, so the clock stops when input did. */
+export function setIdleState(idleState: chrome.idle.IdleState): Promise<void> {
+  return withState(async (state) => {
+    if (idleState === 'active') return sync({ ...state, idle: false });
+    if (idleState === 'idle' && state.tab) {
+      const tab = await chrome.tabs.get(state.tab.tabId).catch(() => null);
+      if (tab?.audible) return state; // watching or listening counts
+    }
+    const stoppedAt = idleState === 'idle' ? Date.now() - IDLE_DETECTION_SECONDS * 1000 : Date.now();
+    return sync({ ...state, idle: true }, stoppedAt);
+  });
+}
+
+/** Report what's been accumulated so far without ending the visit (run on a periodic alarm). */
+export function flushActiveTime(): Promise<void> {
+  // Below the minimum, keep accumulating rather than dropping it
+  return withState((state) => (elapsed(state) >= MIN_VISIT_MS ? report(state) : state));
+}
+
+/** Seed focus/idle on a fresh browser session; a restarted worker keeps its stored state. */
+export async function initActiveTime(): Promise<void> {
+  const result = await chrome.storage.session.get(STATE_KEY);
+  if (result[STATE_KEY]) return;
+  const [win, idleState] = await Promise.all([
+    chrome.windows.getLastFocused().catch(() => null),
+    chrome.idle.queryState(IDLE_DETECTION_SECONDS),
+  ]);
+  await withState((state) => sync({ ...state, windowFocused: win?.focused ?? true, idle: idleState !== 'active' }));
+}
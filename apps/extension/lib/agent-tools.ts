@@ -0,0 +1,105 @@
+/**
+ * Read-only tools the AI agent can call before proposing actions. The model asks for one
+ * with {"tool": name, "args": {...}} and gets the JSON result back as the next message.
+ * This works with every provider in lib/llm (no native function-calling needed).
+ */
+import { getMRUList } from './storage';
+import { searchTabs } from './fuse-search';
+import { getSnoozedTabs } from './snooze';
+import { getWorkspaces } from './workspaces';
+import { getNotes, getNotesMap } from './notes';
+
+const MAX_RESULT_CHARS = 4000; // keep tool results from blowing up the prompt
+
+interface AgentTool {
+  description: string;
+  args: string; // shown to the model
+  run: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const num = (value: unknown, fallback: number, max: number) => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.min(Math.floor(n), max) : fallback;
+};
+
+export const AGENT_TOOLS: Record<string, AgentTool> = {
+  search_tabs: {
+    description: 'fuzzy-search open tabs by title, URL and the user\'s notes',
+    args: '{"query":"string"}',
+    run: async (args) => {
+      const query = str(args.query);
+      if (!query) return [];
+      const [tabs, notesMap] = await Promise.all([getMRUList(), getNotesMap()]);
+      return searchTabs(tabs, query, 0.4, notesMap).slice(0, 15).map((t) => ({
+        tabId: t.tabId,
+        title: t.title,
+        url: t.url,
+        ...(notesMap.get(t.url) ? { note: notesMap.get(t.url) } : {}),
+      }));
+    },
+  },
+  list_snoozed: {
+    description: 'tabs the user snoozed and when they wake up',
+    args: '{}',
+    run: async () => (await getSnoozedTabs()).map((t) => ({
+      title: t.title,
+      url: t.url,
+      wakesAt: new Date(t.wakeAt).toISOString(),
+    })),
+  },
+  list_workspaces: {
+    description: 'saved workspaces (named tab sets) with their tabs',
+    args: '{}',
+    run: async () => (await getWorkspaces()).map((w) => ({
+      name: w.name,
+      tabCount: w.tabs.length,
+      tabs: w.tabs.slice(0, 10).map((t) => ({ title: t.title, url: t.url })),
+    })),
+  },
+  read_notes: {
+    description: 'the user\'s notes, for one URL or all of them',
+    args: '{"url":"string (optional)"}',
+    run: async (args) => {
+      const url = str(args.url);
+      const notes = await getNotes();
+      return (url ? notes.filter((n) => n.url === url) : notes).slice(0, 30).map((n) => ({ url: n.url, note: n.note }));
+    },
+  },
+  fetch_history: {
+    description: 'browser history matching text, most recent first',
+    args: '{"query":"string","days":number (optional, default 7),"maxResults":number (optional, default 20)}',
+    run: async (args) => {
+      const days = num(args.days, 7, 90);
+      const items = await chrome.history.search({
+        text: str(args.query),
+        startTime: Date.now() - days * 24 * 60 * 60 * 1000,
+        maxResults: num(args.maxResults, 20, 50),
+      });
+      return items.map((h) => ({
+        title: h.title ?? '',
+        url: h.url ?? '',
+        lastVisit: h.lastVisitTime ? new Date(h.lastVisitTime).toISOString() : null,
+        visits: h.visitCount ?? 0,
+      }));
+    },
+  },
+};
+
+/** Tool list for the system prompt. */
+export function describeAgentTools(): string {
+  return Object.entries(AGENT_TOOLS).map(([name, t]) => `- ${name} ${t.args} // ${t.description}`).join('\n');
+}
+
+/** Run a tool call from the model; errors come back as a result so the model can recover. */
+export async function runAgentTool(name: unknown, args: unknown): Promise<string> {
+  const tool = typeof name === 'string' && Object.hasOwn(AGENT_TOOLS, name) ? AGENT_TOOLS[name] : undefined;
+  if (!tool) return JSON.stringify({ error: `unknown tool ${JSON.stringify(name)}` });
+  try {
+    const result = await tool.run(args && typeof args === 'object' ? args as Record<string, unknown> : {});
+    const json = JSON.stringify(result);
+    return json.length > MAX_RESULT_CHARS ? `${json.slice(0, MAX_RESULT_CHARS)}… (truncated)` : json;
+  } catch (err) {
+    return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
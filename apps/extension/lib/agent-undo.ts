@@ -0,0 +1,388 @@
+/**
+ * Undo for AI agent batches. Before the batch and after each action the background
+ * snapshots tabs, groups, saved workspaces (with their schedules), snoozes and notes; the difference between two snapshots is
+ * turned into inverse operations for that action (close what it opened, reopen what it
+ * closed via sessions, move/re-pin/regroup what it changed). A batch's inverses are
+ * undone together, last action first.
+ *
+ * Snapshots are compared, rather than each action type knowing its own inverse, because
+ * most agent actions are fire-and-forget messages whose effects only show up in tab state.
+ */
+import type { AgentAction } from './agent';
+import {
+  getWorkspaces, deleteWorkspace, restoreDeletedWorkspace, getAllWorkspaceVersions,
+  type Workspace, type WorkspaceVersion,
+} from './workspaces';
+import { getSnoozedTabs, snoozeTab, removeSnoozedTab, type SnoozedTab } from './snooze';
+import { getNotesMap, saveNote } from './notes';
+import { getSchedules, restoreSchedules, type WorkspaceSchedule } from './schedules';
+
+const UNDO_KEY = 'tabflow_agent_undo';
+const MAX_BATCHES = 5;
+const SETTLE_MS = 200; // let fire-and-forget tab changes land before snapshotting
+
+interface TabState {
+  id: number;
+  url: string;
+  windowId: number;
+  index: number;
+  pinned: boolean;
+  muted: boolean;
+  groupId: number;
+  active: boolean;
+}
+
+interface GroupState {
+  id: number;
+  title: string;
+  color: chrome.tabGroups.ColorEnum;
+  collapsed: boolean;
+  windowId: number;
+}
+
+interface BrowserState {
+  tabs: TabState[];
+  groups: GroupState[];
+  focusedWindowId: number | null;
+  workspaces: Workspace[];
+  versions: Record<string, WorkspaceVersion[]>; // workspace history, so a deleted one keeps it
+  schedules: WorkspaceSchedule[]; // deleting a workspace drops its schedules
+  snoozed: SnoozedTab[];
+  notes: Record<string, string>;
+  takenAt: number;
+}
+
+type InverseOp =
+  | { op: 'close-tabs'; tabIds: number[] }
+  | { op: 'reopen-tabs'; tabs: TabState[]; groups: GroupState[] }
+  | { op: 'restore-tabs'; tabs: TabState[]; groups: GroupState[] }
+  | { op: 'restore-groups'; groups: GroupState[] }
+  | { op: 'activate'; tabId: number; windowId: number }
+  | { op: 'remove-bookmark'; bookmarkId: string }
+  | { op: 'delete-workspaces'; ids: string[] }
+  | { op: 'restore-workspaces'; workspaces: Workspace[]; versions: Record<string, WorkspaceVersion[]>; schedules: WorkspaceSchedule[] }
+  | { op: 'restore-order'; windowId: number; tabIds: number[] }
+  | { op: 'unsnooze'; entries: SnoozedTab[] }
+  | { op: 'resnooze'; entries: SnoozedTab[] }
+  | { op: 'restore-notes'; notes: { url: string; note: string }[] };
+
+export interface AgentUndoBatch {
+  id: string;
+  createdAt: number;
+  steps: { action: AgentAction; ops: InverseOp[] }[];
+}
+
+// Batches being recorded live in memory; only committed ones are persisted
+const recording = new Map<string, { last: BrowserState; steps: AgentUndoBatch['steps'] }>();
+
+async function captureState(): Promise<BrowserState> {
+  const [tabs, groups, focused, workspaces, versions, schedules, snoozed, notes] = await Promise.all([
+    chrome.tabs.query({}),
+    chrome.tabGroups.query({}),
+    chrome.windows.getLastFocused().catch(() => null),
+    getWorkspaces(),
+    getAllWorkspaceVersions(),
+    getSchedules(),
+    getSnoozedTabs(),
+    getNotesMap(),
+  ]);
+  return {
+    tabs: tabs
+      .filter((t) => t.id !== undefined)
+      .map((t) => ({
+        id: t.id!,
+        url: t.url || t.pendingUrl || '',
+        windowId: t.windowId,
+        index: t.index,
+        pinned: t.pinned,
+        muted: !!t.mutedInfo?.muted,
+        groupId: t.groupId,
+        active: t.active,
+      })),
+    groups: groups.map((g) => ({ id: g.id, title: g.title ?? '', color: g.color, collapsed: g.collapsed, windowId: g.windowId })),
+    focusedWindowId: focused?.id ?? null,
+    workspaces,
+    versions,
+    schedules,
+    snoozed,
+    notes: Object.fromEntries(notes),
+    takenAt: Date.now(),
+  };
+}
+
+/** Work out what undoes the change from `before` to `after`. */
+function diffStates(before: BrowserState, after: BrowserState): InverseOp[] {
+  const ops: InverseOp[] = [];
+  const afterTabs = new Map(after.tabs.map((t) => [t.id, t]));
+  const beforeIds = new Set(before.tabs.map((t) => t.id));
+  const groupsOf = (tabs: TabState[]) => before.groups.filter((g) => tabs.some((t) => t.groupId === g.id));
+
+  const opened = after.tabs.filter((t) => !beforeIds.has(t.id)).map((t) => t.id);
+  if (opened.length > 0) ops.push({ op: 'close-tabs', tabIds: opened });
+
+  const closed = before.tabs.filter((t) => !afterTabs.has(t.id));
+  if (closed.length > 0) ops.push({ op: 'reopen-tabs', tabs: closed, groups: groupsOf(closed) });
+
+  // Index shifts caused by other tabs opening/closing aren't changes to undo
+  const changed = before.tabs.filter((t) => {
+    const now = afterTabs.get(t.id);
+    return now && (now.windowId !== t.windowId || now.pinned !== t.pinned || now.muted !== t.muted || now.groupId !== t.groupId);
+  });
+  if (changed.length > 0) ops.push({ op: 'restore-tabs', tabs: changed, groups: groupsOf(changed) });
+
+  const afterGroups = new Map(after.groups.map((g) => [g.id, g]));
+  const editedGroups = before.groups.filter((g) => {
+    const now = afterGroups.get(g.id);
+    return now && (now.title !== g.title || now.color !== g.color || now.collapsed !== g.collapsed);
+  });
+  if (editedGroups.length > 0) ops.push({ op: 'restore-groups', groups: editedGroups });
+
+  const activeBefore = before.tabs.find((t) => t.active && t.windowId === before.focusedWindowId);
+  const activeAfter = after.tabs.find((t) => t.active && t.windowId === after.focusedWindowId);
+  if (activeBefore && activeBefore.id !== activeAfter?.id) {
+    ops.push({ op: 'activate', tabId: activeBefore.id, windowId: activeBefore.windowId });
+  }
+
+  // Reordering within a window (sort-tabs): compare the order of tabs that stayed put
+  for (const windowId of new Set(before.tabs.map((t) => t.windowId))) {
+    const stayed = (state: BrowserState) => state.tabs
+      .filter((t) => t.windowId === windowId && afterTabs.get(t.id)?.windowId === windowId && beforeIds.has(t.id))
+      .sort((a, b) => a.index - b.index)
+      .map((t) => t.id);
+    const was = stayed(before);
+    if (was.join() !== stayed(after).join()) ops.push({ op: 'restore-order', windowId, tabIds: was });
+  }
+
+  const beforeWorkspaceIds = new Set(before.workspaces.map((w) => w.id));
+  const afterWorkspaceIds = new Set(after.workspaces.map((w) => w.id));
+  const newWorkspaces = after.workspaces.filter((w) => !beforeWorkspaceIds.has(w.id)).map((w) => w.id);
+  if (newWorkspaces.length > 0) ops.push({ op: 'delete-workspaces', ids: newWorkspaces });
+  const deletedWorkspaces = before.workspaces.filter((w) => !afterWorkspaceIds.has(w.id));
+  if (deletedWorkspaces.length > 0) {
+    const versions = Object.fromEntries(deletedWorkspaces.map((w) => [w.id, before.versions[w.id] ?? []]));
+    const deletedIds = new Set(deletedWorkspaces.map((w) => w.id));
+    const schedules = before.schedules.filter((s) => deletedIds.has(s.openWorkspaceId) || (s.closeWorkspaceId !== null && deletedIds.has(s.closeWorkspaceId)));
+    ops.push({ op: 'restore-workspaces', workspaces: deletedWorkspaces, versions, schedules });
+  }
+
+  const snoozeKey = (t: SnoozedTab) => `${t.url}@${t.wakeAt}`;
+  const beforeSnoozes = new Set(before.snoozed.map(snoozeKey));
+  const afterSnoozes = new Set(after.snoozed.map(snoozeKey));
+  const snoozed = after.snoozed.filter((t) => !beforeSnoozes.has(snoozeKey(t)));
+  if (snoozed.length > 0) ops.push({ op: 'unsnooze', entries: snoozed });
+  const woken = before.snoozed.filter((t) => !afterSnoozes.has(snoozeKey(t)));
+  if (woken.length > 0) ops.push({ op: 'resnooze', entries: woken });
+
+  const noteUrls = new Set([...Object.keys(before.notes), ...Object.keys(after.notes)]);
+  const editedNotes = [...noteUrls]
+    .filter((url) => (before.notes[url] ?? '') !== (after.notes[url] ?? ''))
+    .map((url) => ({ url, note: before.notes[url] ?? '' }));
+  if (editedNotes.length > 0) ops.push({ op: 'restore-notes', notes: editedNotes });
+
+  return ops;
+}
+
+export async function beginAgentUndo(): Promise<string> {
+  const id = crypto.randomUUID();
+  recording.set(id, { last: await captureState(), steps: [] });
+  return id;
+}
+
+/** Record the inverse of an action that just ran. */
+export async function recordAgentAction(batchId: string, action: AgentAction): Promise<boolean> {
+  const batch = recording.get(batchId);
+  if (!batch) return false;
+  await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+  const next = await captureState();
+  const ops = diffStates(batch.last, next);
+
+  // Bookmarks aren't part of tab state; these actions only ever add bookmarks for the tabs'
+  // URLs, plus the named folder if it didn't exist. Folders go last: removing one only
+  // succeeds once it's empty, so a folder that already held other bookmarks stays
+  if (action.type === 'bookmark-tab' || action.type === 'bookmark-tabs') {
+    const tabIds = action.type === 'bookmark-tab' ? [action.tabId] : action.tabIds;
+    const isNew = (b: chrome.bookmarks.BookmarkTreeNode) => (b.dateAdded ?? 0) >= batch.last.takenAt;
+    const urls = new Set(tabIds.map((id) => batch.last.tabs.find((t) => t.id === id)?.url).filter((u): u is string => !!u));
+    for (const url of urls) {
+      const added = (await chrome.bookmarks.search({ url }).catch(() => [])).filter(isNew);
+      for (const b of added) ops.push({ op: 'remove-bookmark', bookmarkId: b.id });
+    }
+    if (action.folder) {
+      const folders = (await chrome.bookmarks.search({ title: action.folder }).catch(() => [])).filter((b) => !b.url && isNew(b));
+      for (const f of folders) ops.push({ op: 'remove-bookmark', bookmarkId: f.id });
+    }
+  }
+
+  batch.steps.push({ action, ops });
+  batch.last = next;
+  return true;
+}
+
+/** Stop recording and keep the batch if anything in it can be undone. */
+export async function commitAgentUndo(batchId: string): Promise<AgentUndoBatch | null> {
+  const batch = recording.get(batchId);
+  recording.delete(batchId);
+  if (!batch || batch.steps.every((s) => s.ops.length === 0)) return null;
+
+  const committed: AgentUndoBatch = { id: batchId, createdAt: Date.now(), steps: batch.steps };
+  const batches = await getAgentUndoBatches();
+  await chrome.storage.local.set({ [UNDO_KEY]: [committed, ...batches].slice(0, MAX_BATCHES) });
+  return committed;
+}
+
+export async function getAgentUndoBatches(): Promise<AgentUndoBatch[]> {
+  const result = await chrome.storage.local.get(UNDO_KEY);
+  return result[UNDO_KEY] ?? [];
+}
+
+/** Undo a committed batch, last action first. Returns false if it's no longer available. */
+export async function undoAgentBatch(batchId: string): Promise<boolean> {
+  const batches = await getAgentUndoBatches();
+  const batch = batches.find((b) => b.id === batchId);
+  if (!batch) return false;
+  await chrome.storage.local.set({ [UNDO_KEY]: batches.filter((b) => b.id !== batchId) });
+
+  // Reopened tabs and recreated windows/groups get new ids; later ops refer to the old ones
+  const ids: IdMaps = { tabs: new Map(), windows: new Map(), groups: new Map() };
+  for (const step of [...batch.steps].reverse()) {
+    for (const op of step.ops) {
+      await applyInverse(op, ids).catch(() => {});
+    }
+  }
+  return true;
+}
+
+interface IdMaps {
+  tabs: Map<number, number>;
+  windows: Map<number, number>;
+  groups: Map<number, number>;
+}
+
+async function applyInverse(op: InverseOp, ids: IdMaps): Promise<void> {
+  const tabId = (id: number) => ids.tabs.get(id) ?? id;
+  switch (op.op) {
+    case 'close-tabs':
+      await chrome.tabs.remove(op.tabIds.map(tabId)).catch(() => {});
+      return;
+    case 'reopen-tabs':
+      await reopenTabs(op.tabs, ids);
+      await restoreTabs(op.tabs, op.groups, ids);
+      return;
+    case 'restore-tabs':
+      await restoreTabs(op.tabs, op.groups, ids);
+      return;
+    case 'restore-groups':
+      for (const g of op.groups) {
+        await chrome.tabGroups.update(ids.groups.get(g.id) ?? g.id, { title: g.title, color: g.color, collapsed: g.collapsed }).catch(() => {});
+      }
+      return;
+    case 'activate':
+      await chrome.tabs.update(tabId(op.tabId), { active: true }).catch(() => {});
+      await chrome.windows.update(ids.windows.get(op.windowId) ?? op.windowId, { focused: true }).catch(() => {});
+      return;
+    case 'remove-bookmark':
+      await chrome.bookmarks.remove(op.bookmarkId).catch(() => {});
+      return;
+    case 'delete-workspaces':
+      for (const id of op.ids) await deleteWorkspace(id).catch(() => {});
+      return;
+    case 'restore-workspaces':
+      // Same id, so live bindings still find it; its schedules were dropped with it, so put them back
+      for (const w of op.workspaces) await restoreDeletedWorkspace(w, op.versions[w.id]).catch(() => {});
+      await restoreSchedules(op.schedules ?? []).catch(() => {});
+      return;
+    case 'restore-order': {
+      const windowId = ids.windows.get(op.windowId) ?? op.windowId;
+      const current = await chrome.tabs.query({ windowId }).catch(() => []);
+      const live = op.tabIds.map(tabId).filter((id) => current.some((t) => t.id === id));
+      if (live.length === 0) return;
+      // Put them back relative to each other, starting where the first of them sits now
+      const start = Math.min(...current.filter((t) => live.includes(t.id!)).map((t) => t.index));
+      for (let i = 0; i < live.length; i++) await chrome.tabs.move(live[i], { index: start + i }).catch(() => {});
+      return;
+    }
+    case 'unsnooze':
+      for (const t of op.entries) await removeSnoozedTab(t.url, t.wakeAt).catch(() => {});
+      return;
+    case 'resnooze':
+      for (const t of op.entries) await snoozeTab(t).catch(() => {});
+      return;
+    case 'restore-notes':
+      // saveNote with an empty note deletes it
+      for (const n of op.notes) await saveNote(n.url, n.note).catch(() => {});
+      return;
+  }
+}
+
+/** Bring closed tabs back, preferring session restore so history and form state return too. */
+async function reopenTabs(tabs: TabState[], ids: IdMaps): Promise<void> {
+  const sessions = await chrome.sessions.getRecentlyClosed({ maxResults: chrome.sessions.MAX_SESSION_RESULTS }).catch(() => []);
+  const used = new Set<string>();
+  for (const t of tabs) {
+    const session = sessions.find((s) => s.tab?.url === t.url && s.tab.sessionId && !used.has(s.tab.sessionId));
+    let restoredId: number | undefined;
+    if (session?.tab?.sessionId) {
+      used.add(session.tab.sessionId);
+      const restored = await chrome.sessions.restore(session.tab.sessionId).catch(() => null);
+      restoredId = restored?.tab?.id;
+    }
+    if (restoredId === undefined && t.url) {
+      const windowId = ids.windows.get(t.windowId) ?? t.windowId;
+      if (await chrome.windows.get(windowId).catch(() => null)) {
+        restoredId = (await chrome.tabs.create({ url: t.url, windowId, active: false }).catch(() => null))?.id;
+      } else {
+        const created = await chrome.windows.create({ url: t.url, focused: false }).catch(() => null);
+        if (created?.id !== undefined) ids.windows.set(t.windowId, created.id);
+        restoredId = created?.tabs?.[0]?.id;
+      }
+    }
+    if (restoredId !== undefined) ids.tabs.set(t.id, restoredId);
+  }
+}
+
+/** Put tabs back in their original window, position, pinned/muted state and group. */
+async function restoreTabs(tabs: TabState[], groups: GroupState[], ids: IdMaps): Promise<void> {
+  const ordered = [...tabs].sort((a, b) => a.index - b.index);
+  for (const t of ordered) {
+    const id = ids.tabs.get(t.id) ?? t.id;
+    const current = await chrome.tabs.get(id).catch(() => null);
+    if (!current) continue;
+    const windowId = await ensureWindow(t.windowId, ids, id);
+    if (current.windowId !== windowId || current.index !== t.index) {
+      await chrome.tabs.move(id, { windowId, index: t.index }).catch(() => {});
+    }
+    await chrome.tabs.update(id, { pinned: t.pinned, muted: t.muted }).catch(() => {});
+  }
+
+  // Regroup: into the original group if it still exists, otherwise a recreated one
+  for (const t of ordered) {
+    const id = ids.tabs.get(t.id) ?? t.id;
+    const current = await chrome.tabs.get(id).catch(() => null);
+    if (!current) continue;
+    if (t.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      if (current.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) await chrome.tabs.ungroup(id).catch(() => {});
+      continue;
+    }
+    const targetGroup = ids.groups.get(t.groupId) ?? t.groupId;
+    if (current.groupId === targetGroup) continue;
+    const existing = await chrome.tabGroups.get(targetGroup).catch(() => null);
+    if (existing && existing.windowId === current.windowId) {
+      await chrome.tabs.group({ groupId: existing.id, tabIds: id }).catch(() => {});
+      continue;
+    }
+    const newGroupId = await chrome.tabs.group({ tabIds: id, createProperties: { windowId: current.windowId } }).catch(() => null);
+    if (newGroupId === null) continue;
+    ids.groups.set(t.groupId, newGroupId);
+    const meta = groups.find((g) => g.id === t.groupId);
+    if (meta) await chrome.tabGroups.update(newGroupId, { title: meta.title, color: meta.color, collapsed: meta.collapsed }).catch(() => {});
+  }
+}
+
+/** The live id for an original window, recreating it around `seedTabId` if it was closed. */
+async function ensureWindow(windowId: number, ids: IdMaps, seedTabId: number): Promise<number> {
+  const mapped = ids.windows.get(windowId) ?? windowId;
+  if (await chrome.windows.get(mapped).catch(() => null)) return mapped;
+  const created = await chrome.windows.create({ tabId: seedTabId, focused: false });
+  ids.windows.set(windowId, created.id!);
+  return created.id!;
+}
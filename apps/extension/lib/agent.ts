@@ -1,3 +1,7 @@
+import type { AgentActionType } from '@shared/agent-prompt';
+import { getWorkspaces } from './workspaces';
+import { getSnoozedTabs } from './snooze';
+
 export type AgentAction =
   | { type: 'group-tabs'; tabIds: number[]; title: string; color?: string }
   | { type: 'open-urls-in-group'; urls: string[]; title: string; color?: string }
@@ -19,11 +23,249 @@ export type AgentAction =
   | { type: 'close-by-domain'; domain: string; keepTabId?: number }
   | { type: 'rename-group'; groupId: number; title?: string; color?: string }
   | { type: 'focus-window'; windowId: number }
-  | { type: 'discard-tabs'; tabIds: number[] };
+  | { type: 'discard-tabs'; tabIds: number[] }
+  | { type: 'snooze-tab'; tabId: number; until: string }
+  | { type: 'cancel-snooze'; url: string }
+  | { type: 'set-note'; tabId: number; note: string }
+  | { type: 'bookmark-tabs'; tabIds: number[]; folder: string }
+  | { type: 'restore-workspace'; name: string; mode?: 'missing' | 'replace' | 'new-window' }
+  | { type: 'delete-workspace'; name: string }
+  | { type: 'sort-tabs'; windowId: number; by: 'title' | 'domain' | 'recent' }
+  | { type: 'collapse-group'; groupId: number; collapsed: boolean };
 
 export interface AgentResult {
+  query?: string; // the request this answers
   message: string;
   actions: AgentAction[];
+  issues?: string[]; // actions dropped or repaired by validateAgentActions
+  toolCalls?: string[]; // read-only tools the model used before answering
+}
+
+// ---- Validation ----
+// The model's reply is untrusted: every action is checked against a schema for its type
+// and against the tabs, groups and windows that actually exist. Fixable problems are
+// repaired (numeric strings, missing https://, unknown ids in a list); the rest are dropped.
+
+export const GROUP_COLORS = ['blue', 'cyan', 'green', 'yellow', 'orange', 'red', 'pink', 'purple', 'grey'] as const;
+
+type FieldKind =
+  | 'tabId' | 'tabIds' | 'groupId' | 'windowId' | 'string' | 'url' | 'urls' | 'boolean' | 'color'
+  | 'future-time' | 'snoozed-url' | 'workspace' | 'enum';
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  values?: readonly string[]; // for 'enum'
+}
+
+// The prompts offer exactly the actions defined here: AGENT_ACTIONS in the shared prompt and
+// AgentAction must list the same types, so adding one on either side fails to compile
+type SameTypes<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+const PROMPT_MATCHES_ACTIONS: SameTypes<AgentAction['type'], AgentActionType> = true;
+void PROMPT_MATCHES_ACTIONS;
+
+const ACTION_SCHEMAS: Record<AgentAction['type'], Record<string, FieldSpec>> = {
+  'group-tabs': { tabIds: { kind: 'tabIds' }, title: { kind: 'string' }, color: { kind: 'color', optional: true } },
+  'open-urls-in-group': { urls: { kind: 'urls' }, title: { kind: 'string' }, color: { kind: 'color', optional: true } },
+  'close-tab': { tabId: { kind: 'tabId' } },
+  'close-tabs': { tabIds: { kind: 'tabIds' } },
+  'open-url': { url: { kind: 'url' } },
+  'pin-tab': { tabId: { kind: 'tabId' }, pinned: { kind: 'boolean' } },
+  'mute-tab': { tabId: { kind: 'tabId' }, muted: { kind: 'boolean' } },
+  'bookmark-tab': { tabId: { kind: 'tabId' }, folder: { kind: 'string', optional: true } },
+  'switch-tab': { tabId: { kind: 'tabId' } },
+  'move-to-new-window': { tabId: { kind: 'tabId' } },
+  'reload-tab': { tabId: { kind: 'tabId' } },
+  'ungroup-tabs': { tabIds: { kind: 'tabIds' } },
+  'split-view': { tabId1: { kind: 'tabId' }, tabId2: { kind: 'tabId' } },
+  'merge-windows': {},
+  'reopen-last-closed': {},
+  'create-workspace': { name: { kind: 'string' } },
+  'duplicate-tab': { tabId: { kind: 'tabId' } },
+  'close-by-domain': { domain: { kind: 'string' }, keepTabId: { kind: 'tabId', optional: true } },
+  'rename-group': { groupId: { kind: 'groupId' }, title: { kind: 'string', optional: true }, color: { kind: 'color', optional: true } },
+  'focus-window': { windowId: { kind: 'windowId' } },
+  'discard-tabs': { tabIds: { kind: 'tabIds' } },
+  'snooze-tab': { tabId: { kind: 'tabId' }, until: { kind: 'future-time' } },
+  'cancel-snooze': { url: { kind: 'snoozed-url' } },
+  'set-note': { tabId: { kind: 'tabId' }, note: { kind: 'string' } },
+  'bookmark-tabs': { tabIds: { kind: 'tabIds' }, folder: { kind: 'string' } },
+  'restore-workspace': {
+    name: { kind: 'workspace' },
+    mode: { kind: 'enum', optional: true, values: ['missing', 'replace', 'new-window'] },
+  },
+  'delete-workspace': { name: { kind: 'workspace' } },
+  'sort-tabs': { windowId: { kind: 'windowId' }, by: { kind: 'enum', values: ['title', 'domain', 'recent'] } },
+  'collapse-group': { groupId: { kind: 'groupId' }, collapsed: { kind: 'boolean' } },
+};
+
+/** Ids and names that exist right now. */
+export interface AgentContext {
+  tabIds: Set<number>;
+  groupIds: Set<number>;
+  windowIds: Set<number>;
+  workspaceNames: string[];
+  snoozedUrls: Set<string>;
+}
+
+export async function loadAgentContext(): Promise<AgentContext> {
+  const [tabs, groups, windows, workspaces, snoozed] = await Promise.all([
+    chrome.tabs.query({}),
+    chrome.tabGroups.query({}),
+    chrome.windows.getAll(),
+    getWorkspaces(),
+    getSnoozedTabs(),
+  ]);
+  return {
+    tabIds: new Set(tabs.map((t) => t.id).filter((id): id is number => id !== undefined)),
+    groupIds: new Set(groups.map((g) => g.id)),
+    windowIds: new Set(windows.map((w) => w.id).filter((id): id is number => id !== undefined)),
+    workspaceNames: workspaces.map((w) => w.name),
+    snoozedUrls: new Set(snoozed.map((t) => t.url)),
+  };
+}
+
+function toId(value: unknown): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) ? n : null;
+}
+
+function toUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const raw = value.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(raw) ? raw : `https://${raw}`;
+  try {
+    const url = new URL(withScheme);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Check one field; returns the repaired value, or an error for a required field. */
+function checkField(
+  spec: FieldSpec, value: unknown, ctx: AgentContext, notes: string[],
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  switch (spec.kind) {
+    case 'tabId': {
+      const id = toId(value);
+      if (id === null) return { ok: false, error: 'missing tab id' };
+      if (!ctx.tabIds.has(id)) return { ok: false, error: `tab ${id} doesn't exist` };
+      return { ok: true, value: id };
+    }
+    case 'tabIds': {
+      if (!Array.isArray(value)) return { ok: false, error: 'missing tab ids' };
+      const ids = value.map(toId).filter((id): id is number => id !== null);
+      const known = [...new Set(ids.filter((id) => ctx.tabIds.has(id)))];
+      if (known.length < value.length) notes.push(`skipped ${value.length - known.length} unknown tab${value.length - known.length === 1 ? '' : 's'}`);
+      if (known.length === 0) return { ok: false, error: 'none of its tabs exist' };
+      return { ok: true, value: known };
+    }
+    case 'groupId': {
+      const id = toId(value);
+      if (id === null || !ctx.groupIds.has(id)) return { ok: false, error: `group ${String(value)} doesn't exist` };
+      return { ok: true, value: id };
+    }
+    case 'windowId': {
+      const id = toId(value);
+      if (id === null || !ctx.windowIds.has(id)) return { ok: false, error: `window ${String(value)} doesn't exist` };
+      return { ok: true, value: id };
+    }
+    case 'string':
+      if (typeof value === 'number') return { ok: true, value: String(value) };
+      if (typeof value !== 'string') return { ok: false, error: 'missing text' };
+      return { ok: true, value: value.trim() };
+    case 'url': {
+      const url = toUrl(value);
+      return url ? { ok: true, value: url } : { ok: false, error: `invalid URL ${JSON.stringify(value)}` };
+    }
+    case 'urls': {
+      if (!Array.isArray(value)) return { ok: false, error: 'missing URLs' };
+      const urls = value.map(toUrl).filter((u): u is string => u !== null);
+      if (urls.length < value.length) notes.push(`skipped ${value.length - urls.length} invalid URL${value.length - urls.length === 1 ? '' : 's'}`);
+      if (urls.length === 0) return { ok: false, error: 'no valid URLs' };
+      return { ok: true, value: urls };
+    }
+    case 'boolean':
+      if (value === 'true' || value === 'false') return { ok: true, value: value === 'true' };
+      return typeof value === 'boolean' ? { ok: true, value } : { ok: false, error: 'missing true/false' };
+    case 'color': {
+      const color = typeof value === 'string' ? value.toLowerCase() : '';
+      if (color === 'gray') return { ok: true, value: 'grey' };
+      return (GROUP_COLORS as readonly string[]).includes(color) ? { ok: true, value: color } : { ok: false, error: `unknown color ${JSON.stringify(value)}` };
+    }
+    case 'future-time': {
+      const at = typeof value === 'number' ? value : Date.parse(String(value));
+      if (!Number.isFinite(at)) return { ok: false, error: `invalid time ${JSON.stringify(value)}` };
+      if (at <= Date.now()) return { ok: false, error: 'time is in the past' };
+      return { ok: true, value: new Date(at).toISOString() };
+    }
+    case 'snoozed-url': {
+      const url = typeof value === 'string' ? value.trim() : '';
+      return ctx.snoozedUrls.has(url) ? { ok: true, value: url } : { ok: false, error: `${JSON.stringify(value)} isn't snoozed` };
+    }
+    case 'workspace': {
+      // Names are matched case-insensitively and normalized to the saved spelling
+      const wanted = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      const name = ctx.workspaceNames.find((n) => n.toLowerCase() === wanted);
+      return name ? { ok: true, value: name } : { ok: false, error: `no workspace named ${JSON.stringify(value)}` };
+    }
+    case 'enum': {
+      const v = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      return spec.values?.includes(v) ? { ok: true, value: v } : { ok: false, error: `${JSON.stringify(value)} isn't one of ${spec.values?.join('/')}` };
+    }
+  }
+}
+
+/**
+ * Validate the model's actions against their schemas and the live browser state.
+ * Returns the actions that are safe to run plus a note for each one dropped or repaired.
+ */
+export function validateAgentActions(raw: unknown, ctx: AgentContext): { actions: AgentAction[]; issues: string[] } {
+  const actions: AgentAction[] = [];
+  const issues: string[] = [];
+  if (!Array.isArray(raw)) return { actions, issues: raw === undefined ? [] : ['Ignored a malformed action list'] };
+
+  for (const item of raw) {
+    const type = (item as { type?: unknown })?.type;
+    // Own keys only: "constructor" or "toString" must not find an inherited value
+    const schema = typeof type === 'string' && Object.hasOwn(ACTION_SCHEMAS, type)
+      ? ACTION_SCHEMAS[type as AgentAction['type']]
+      : undefined;
+    if (!schema) {
+      issues.push(`Dropped unknown action ${JSON.stringify(type ?? item)}`);
+      continue;
+    }
+
+    const action: Record<string, unknown> = { type };
+    const notes: string[] = [];
+    let error: string | null = null;
+    for (const [field, spec] of Object.entries(schema)) {
+      const value = (item as Record<string, unknown>)[field];
+      if (value === undefined || value === null) {
+        if (!spec.optional) { error = `missing ${field}`; break; }
+        continue;
+      }
+      const result = checkField(spec, value, ctx, notes);
+      if (result.ok) action[field] = result.value;
+      else if (spec.optional) notes.push(`ignored ${field} (${result.error})`);
+      else { error = result.error; break; }
+    }
+
+    // Cross-field checks the per-field schema can't express
+    if (!error && type === 'split-view' && action.tabId1 === action.tabId2) error = 'needs two different tabs';
+    if (!error && type === 'create-workspace' && !action.name) error = 'missing name';
+    if (!error && type === 'close-by-domain' && !action.domain) error = 'missing domain';
+    if (!error && type === 'bookmark-tabs' && !action.folder) error = 'missing folder';
+
+    if (error) {
+      issues.push(`Dropped ${type}: ${error}`);
+      continue;
+    }
+    if (notes.length > 0) issues.push(`Adjusted ${type}: ${notes.join(', ')}`);
+    actions.push(action as AgentAction);
+  }
+  return { actions, issues };
 }
 
 export function describeAction(action: AgentAction): string {
@@ -49,6 +291,14 @@ export function describeAction(action: AgentAction): string {
     case 'rename-group': return action.title ? `Rename group to "${action.title}"` : 'Recolor group';
     case 'focus-window': return 'Switch to window';
     case 'discard-tabs': return `Suspend ${action.tabIds.length} tab${action.tabIds.length === 1 ? '' : 's'}`;
+    case 'snooze-tab': return `Snooze tab until ${new Date(action.until).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`;
+    case 'cancel-snooze': return `Wake snoozed ${action.url}`;
+    case 'set-note': return action.note ? 'Add note to tab' : 'Remove note from tab';
+    case 'bookmark-tabs': return `Bookmark ${action.tabIds.length} tabs in "${action.folder}"`;
+    case 'restore-workspace': return `Restore workspace "${action.name}"`;
+    case 'delete-workspace': return `Delete workspace "${action.name}"`;
+    case 'sort-tabs': return `Sort tabs by ${action.by}`;
+    case 'collapse-group': return action.collapsed ? 'Collapse group' : 'Expand group';
     default: return 'Unknown action';
   }
 }
@@ -3,6 +3,8 @@
  * Sends Cognito Bearer token when signed in, falls back to x-device-id for local dev.
  */
 import { getValidToken } from './auth';
+import type { ChatMessage } from './llm';
+import type { TabInfo } from './types';
 
 const DEFAULT_API_URL = 'http://localhost:3001';
 
@@ -19,6 +21,16 @@ export async function getDeviceId(): Promise<string> {
   return id;
 }
 
+/** Non-2xx response from the API; `status` lets callers tell retryable failures apart. */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
   const [base, deviceId, token] = await Promise.all([getApiUrl(), getDeviceId(), getValidToken()]);
   const headers: Record<string, string> = {
@@ -28,7 +40,7 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   };
   if (token) headers['Authorization'] = `Bearer ${token}`;
   const res = await fetch(`${base}${path}`, { ...options, headers });
-  if (!res.ok) throw new Error(`API ${res.status}: ${await res.text()}`);
+  if (!res.ok) throw new ApiError(res.status, `API ${res.status}: ${await res.text()}`);
   return res.json() as Promise<T>;
 }
 
@@ -43,32 +55,119 @@ export async function checkHealth(): Promise<boolean> {
 }
 
 // ---- Analytics: record a tab visit ----
-export async function recordVisit(url: string, domain: string, durationMs: number, title?: string): Promise<void> {
+export interface VisitReport {
+  visitId: string; // one per report, so a retry after a lost response isn't counted twice
+  url: string;
+  domain: string;
+  durationMs: number;
+  title?: string;
+  startedAt?: string;
+  continued?: boolean; // more time for a visit already reported, so it isn't counted again
+}
+
+export async function recordVisit(visit: VisitReport): Promise<void> {
   await request('/api/analytics/visit', {
     method: 'POST',
-    body: JSON.stringify({ url, domain, durationMs, title }),
+    body: JSON.stringify(visit),
+  });
+}
+
+// ---- AI: embed a tab for semantic search (sent via lib/outbox) ----
+export async function embedTab(url: string, title: string, contentSummary?: string): Promise<void> {
+  await request('/api/ai/embed', {
+    method: 'POST',
+    body: JSON.stringify({ url, title, contentSummary }),
+  });
+}
+
+// ---- AI: tab agent via the server's managed key ----
+export interface AgentUsage {
+  requests: number;
+  tokens: number;
+  requestLimit: number;
+  tokenLimit: number;
+}
+
+/** What the server's agent sees; it builds the prompt from this itself. Signed-in users only. */
+export interface AgentRequest {
+  query: string;
+  history: ChatMessage[];
+  // Ranked and trimmed by the client, with domains instead of URLs
+  tabs: Array<Pick<TabInfo, 'tabId' | 'windowId' | 'title' | 'isActive' | 'isPinned' | 'isMuted' | 'isAudible' | 'groupId' | 'groupTitle' | 'groupColor'> & { domain: string }>;
+  omittedTabs: number;
+  windows: Array<{ windowId: number; tabCount: number; activeTabTitle?: string }>;
+  workspaces: Array<{ name: string; tabCount: number }>;
+}
+
+export async function agentChat(agentRequest: AgentRequest): Promise<{ text: string; usage: AgentUsage }> {
+  return request('/api/ai/agent', {
+    method: 'POST',
+    body: JSON.stringify(agentRequest),
   });
 }
 
+export async function getAgentUsage(): Promise<{ usage: AgentUsage; model: string | null }> {
+  return request('/api/ai/agent/usage');
+}
+
 // ---- Analytics: top domains ----
 export interface DomainStat {
   domain: string;
   total_visits: number;
   total_duration_ms: number;
-  unique_pages: number;
+  unique_pages?: number; // lifetime totals only
 }
 
-export async function getTopDomains(limit = 5): Promise<DomainStat[]> {
-  const data = await request<{ domains: DomainStat[] }>(`/api/analytics/top-domains?limit=${limit}`);
+/** Lifetime top domains by visits, or top domains by time within `range`. */
+export async function getTopDomains(limit = 5, range?: { from: Date; to: Date }): Promise<DomainStat[]> {
+  const query = new URLSearchParams({
+    limit: String(limit),
+    ...(range ? { from: range.from.toISOString(), to: range.to.toISOString() } : {}),
+  });
+  const data = await request<{ domains: DomainStat[] }>(`/api/analytics/top-domains?${query}`);
   return data.domains;
 }
 
+// ---- Analytics: time series ----
+export interface TimeseriesBucket {
+  start: string; // local time in the requested zone, "YYYY-MM-DDTHH:00"
+  visits: number;
+  durationMs: number;
+}
+
+export async function getTimeseries(params: {
+  granularity: 'hour' | 'day';
+  from: Date;
+  to: Date;
+  domain?: string;
+}): Promise<TimeseriesBucket[]> {
+  const query = new URLSearchParams({
+    granularity: params.granularity,
+    from: params.from.toISOString(),
+    to: params.to.toISOString(),
+    tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    ...(params.domain ? { domain: params.domain } : {}),
+  });
+  const data = await request<{ buckets: TimeseriesBucket[] }>(`/api/analytics/timeseries?${query}`);
+  return data.buckets;
+}
+
 // ---- Sync: workspaces ----
 export interface Workspace {
   id: string;
   name: string;
-  tabs: Array<{ url: string; title: string; faviconUrl?: string }>;
+  tabs: Array<{
+    url: string;
+    title: string;
+    faviconUrl?: string;
+    pinned?: boolean;
+    windowIndex?: number;
+    groupTitle?: string;
+    groupColor?: string;
+  }>;
+  groups: Array<{ title: string; color: string; collapsed: boolean; windowIndex: number }> | null;
   createdAt: string;
+  updatedAt: string;
 }
 
 export async function getWorkspaces(): Promise<Workspace[]> {
@@ -96,7 +195,71 @@ export async function updateWorkspace(id: string, tabs: Workspace['tabs']): Prom
   return data.workspace;
 }
 
-// ---- Sync: bookmarks (fire-and-forget to cloud) ----
+/** Create or overwrite a workspace under its client-generated id. */
+export async function upsertWorkspace(
+  id: string, name: string, tabs: Workspace['tabs'], groups?: NonNullable<Workspace['groups']>,
+): Promise<Workspace> {
+  const data = await request<{ workspace: Workspace }>(`/api/sync/workspaces/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ name, tabs, groups }),
+  });
+  return data.workspace;
+}
+
+export interface WorkspaceVersion {
+  id: string;
+  workspaceId: string;
+  name: string;
+  tabs: Workspace['tabs'];
+  groups: Workspace['groups'];
+  createdAt: string;
+}
+
+/** Earlier contents of a workspace recorded by the server, newest first. */
+export async function getWorkspaceVersions(id: string): Promise<WorkspaceVersion[]> {
+  const data = await request<{ versions: WorkspaceVersion[] }>(`/api/sync/workspaces/${id}/versions`);
+  return data.versions;
+}
+
+// ---- Sync: incremental changes ----
+export interface CloudBookmark {
+  id: string;
+  url: string;
+  title: string;
+  faviconUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CloudNote {
+  id: string;
+  url: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Tombstone {
+  id: string;
+  url?: string;
+  deletedAt: string;
+}
+
+export interface SyncChanges {
+  cursor: string | null;
+  workspaces: { upserted: Workspace[]; deleted: Tombstone[] };
+  bookmarks: { upserted: CloudBookmark[]; deleted: Tombstone[] };
+  notes: { upserted: CloudNote[]; deleted: Tombstone[] };
+  settings: Record<string, unknown> | null;
+}
+
+/** Everything written since `cursor` (or everything, when omitted), including deletes. */
+export async function getChanges(cursor?: string | null): Promise<SyncChanges> {
+  const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+  return request<SyncChanges>(`/api/sync/changes${query}`);
+}
+
+// ---- Sync: bookmarks (sent via lib/outbox) ----
 export async function syncBookmarkToCloud(url: string, title: string, faviconUrl?: string): Promise<void> {
   await request('/api/sync/bookmarks', {
     method: 'POST',
@@ -104,7 +267,11 @@ export async function syncBookmarkToCloud(url: string, title: string, faviconUrl
   });
 }
 
-// ---- Sync: notes (fire-and-forget to cloud) ----
+export async function deleteBookmarkFromCloud(url: string): Promise<void> {
+  await request(`/api/sync/bookmarks?url=${encodeURIComponent(url)}`, { method: 'DELETE' });
+}
+
+// ---- Sync: notes (sent via lib/outbox) ----
 export async function syncNoteToCloud(url: string, content: string): Promise<void> {
   await request('/api/sync/notes', {
     method: 'POST',
@@ -112,7 +279,11 @@ export async function syncNoteToCloud(url: string, content: string): Promise<voi
   });
 }
 
-// ---- Sync: settings (fire-and-forget to cloud) ----
+export async function deleteNoteFromCloud(url: string): Promise<void> {
+  await request(`/api/sync/notes?url=${encodeURIComponent(url)}`, { method: 'DELETE' });
+}
+
+// ---- Sync: settings (sent via lib/outbox) ----
 export async function syncSettingsToCloud(settings: Record<string, unknown>): Promise<void> {
   await request('/api/sync/settings', {
     method: 'PUT',
@@ -1,4 +1,6 @@
-import { syncBookmarkToCloud } from './api-client';
+import type { SyncChanges } from './api-client';
+import { sendOrQueue } from './outbox';
+import { getTombstones, addTombstone, clearTombstone } from './tombstones';
 
 const BOOKMARKS_KEY = 'tabflow_bookmarks';
 
@@ -7,6 +9,7 @@ export interface TabBookmark {
   title: string;
   faviconUrl: string;
   createdAt: number;
+  updatedAt?: number; // last change here or pulled from the cloud; createdAt if never changed
 }
 
 export async function getBookmarks(): Promise<TabBookmark[]> {
@@ -14,14 +17,16 @@ export async function getBookmarks(): Promise<TabBookmark[]> {
   return result[BOOKMARKS_KEY] || [];
 }
 
-export async function addBookmark(bookmark: Omit<TabBookmark, 'createdAt'>): Promise<TabBookmark[]> {
+export async function addBookmark(bookmark: Omit<TabBookmark, 'createdAt' | 'updatedAt'>): Promise<TabBookmark[]> {
   const bookmarks = await getBookmarks();
   // Don't add duplicates
   if (bookmarks.some((b) => b.url === bookmark.url)) return bookmarks;
-  const newBookmark: TabBookmark = { ...bookmark, createdAt: Date.now() };
+  const now = Date.now();
+  const newBookmark: TabBookmark = { ...bookmark, createdAt: now, updatedAt: now };
   const updated = [newBookmark, ...bookmarks];
   await chrome.storage.local.set({ [BOOKMARKS_KEY]: updated });
-  syncBookmarkToCloud(bookmark.url, bookmark.title, bookmark.faviconUrl).catch(() => {});
+  await clearTombstone('bookmark', bookmark.url);
+  sendOrQueue({ kind: 'bookmark', url: bookmark.url, title: bookmark.title, faviconUrl: bookmark.faviconUrl }).catch(() => {});
   return updated;
 }
 
@@ -29,6 +34,8 @@ export async function removeBookmark(url: string): Promise<TabBookmark[]> {
   const bookmarks = await getBookmarks();
   const updated = bookmarks.filter((b) => b.url !== url);
   await chrome.storage.local.set({ [BOOKMARKS_KEY]: updated });
+  await addTombstone('bookmark', url);
+  sendOrQueue({ kind: 'bookmark-delete', url }).catch(() => {});
   return updated;
 }
 
@@ -36,3 +43,46 @@ export async function isBookmarked(url: string): Promise<boolean> {
   const bookmarks = await getBookmarks();
   return bookmarks.some((b) => b.url === url);
 }
+
+/**
+ * Merge bookmarks from the sync change feed. Same rules as notes: the newer copy wins (so a
+ * title edited on another device arrives), a local tombstone newer than the remote copy
+ * wins, and a remote delete only removes older local copies.
+ */
+export async function applyCloudBookmarkChanges(changes: SyncChanges['bookmarks']): Promise<number> {
+  const tombstones = await getTombstones('bookmark');
+  const bookmarks = new Map((await getBookmarks()).map((b) => [b.url, b]));
+  let applied = 0;
+
+  for (const t of changes.deleted) {
+    const local = t.url ? bookmarks.get(t.url) : undefined;
+    if (local && (local.updatedAt ?? local.createdAt) <= Date.parse(t.deletedAt)) {
+      bookmarks.delete(local.url);
+      applied++;
+    }
+  }
+
+  const upserted = [...changes.upserted].sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt));
+  for (const remote of upserted) {
+    const updatedAt = Date.parse(remote.updatedAt);
+    const tombstone = tombstones[remote.url];
+    if (tombstone && tombstone.deletedAt >= updatedAt) continue;
+    const local = bookmarks.get(remote.url);
+    if (local && (local.updatedAt ?? local.createdAt) >= updatedAt) continue;
+    bookmarks.set(remote.url, {
+      url: remote.url,
+      title: remote.title,
+      faviconUrl: remote.faviconUrl ?? local?.faviconUrl ?? '',
+      createdAt: local?.createdAt ?? Date.parse(remote.createdAt),
+      updatedAt,
+    });
+    if (tombstone) await clearTombstone('bookmark', remote.url);
+    applied++;
+  }
+
+  if (applied > 0) {
+    const list = [...bookmarks.values()].sort((a, b) => b.createdAt - a.createdAt);
+    await chrome.storage.local.set({ [BOOKMARKS_KEY]: list });
+  }
+  return applied;
+}
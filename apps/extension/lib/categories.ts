@@ -0,0 +1,75 @@
+/**
+ * Domain categories for analytics ("Code", "Docs", "Chat", "Social", …). Each category is
+ * productive, neutral or distracting, and owns a list of patterns:
+ *
+ * - "github.com" matches the domain and its subdomains
+ * - "google.com/maps" also requires the path to start with /maps (only applies where the
+ *   full URL is known; time-series data is per domain)
+ *
+ * The first matching pattern wins, longest first, so "docs.google.com" can be Docs while
+ * "google.com" stays elsewhere. Anything unmatched is "Other" (neutral).
+ */
+const CATEGORIES_KEY = 'tabflow_categories';
+
+export type CategoryKind = 'productive' | 'neutral' | 'distracting';
+
+export interface Category {
+  id: string;
+  name: string;
+  kind: CategoryKind;
+  patterns: string[];
+}
+
+export const OTHER_CATEGORY: Category = { id: 'other', name: 'Other', kind: 'neutral', patterns: [] };
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'code', name: 'Code', kind: 'productive', patterns: ['github.com', 'gitlab.com', 'bitbucket.org', 'stackoverflow.com', 'localhost', 'vercel.com', 'npmjs.com'] },
+  { id: 'docs', name: 'Docs', kind: 'productive', patterns: ['docs.google.com', 'notion.so', 'atlassian.net', 'developer.mozilla.org', 'readthedocs.io', 'figma.com', 'linear.app'] },
+  { id: 'chat', name: 'Chat', kind: 'neutral', patterns: ['slack.com', 'discord.com', 'teams.microsoft.com', 'mail.google.com', 'outlook.live.com', 'zoom.us'] },
+  { id: 'social', name: 'Social', kind: 'distracting', patterns: ['twitter.com', 'x.com', 'facebook.com', 'instagram.com', 'reddit.com', 'linkedin.com', 'tiktok.com', 'news.ycombinator.com'] },
+  { id: 'video', name: 'Video', kind: 'distracting', patterns: ['youtube.com', 'netflix.com', 'twitch.tv', 'primevideo.com'] },
+];
+
+export async function getCategories(): Promise<Category[]> {
+  const result = await chrome.storage.local.get(CATEGORIES_KEY);
+  return result[CATEGORIES_KEY] || DEFAULT_CATEGORIES;
+}
+
+export async function saveCategories(categories: Category[]): Promise<Category[]> {
+  await chrome.storage.local.set({ [CATEGORIES_KEY]: categories });
+  return categories;
+}
+
+/** Lowercase, drop the scheme and www., trim slashes: "https://www.GitHub.com/" → "github.com". */
+export function normalizePattern(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+function split(urlOrDomain: string): { host: string; path: string } {
+  try {
+    const url = new URL(urlOrDomain.includes('://') ? urlOrDomain : `https://${urlOrDomain}`);
+    return { host: url.hostname.replace(/^www\./, ''), path: url.pathname.toLowerCase() };
+  } catch {
+    return { host: urlOrDomain.toLowerCase(), path: '/' };
+  }
+}
+
+function matches(pattern: string, host: string, path: string): boolean {
+  const slash = pattern.indexOf('/');
+  const patternHost = slash === -1 ? pattern : pattern.slice(0, slash);
+  const patternPath = slash === -1 ? '' : pattern.slice(slash);
+  if (host !== patternHost && !host.endsWith(`.${patternHost}`)) return false;
+  return !patternPath || path.startsWith(patternPath);
+}
+
+/** Returns a categorizer for full URLs or bare domains; build it once per batch. */
+export function createCategorizer(categories: Category[]): (urlOrDomain: string) => Category {
+  const rules = categories
+    .flatMap((category) => category.patterns.map((p) => ({ pattern: normalizePattern(p), category })))
+    .filter((r) => r.pattern)
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+  return (urlOrDomain) => {
+    const { host, path } = split(urlOrDomain);
+    return rules.find((r) => matches(r.pattern, host, path))?.category ?? OTHER_CATEGORY;
+  };
+}
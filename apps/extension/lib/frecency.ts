@@ -1,6 +1,6 @@
 const FRECENCY_KEY = 'tabflow_frecency';
 
-interface FrecencyEntry {
+export interface FrecencyEntry {
   url: string;
   visitCount: number;
   lastVisit: number;
@@ -12,6 +12,23 @@ export async function getFrecencyMap(): Promise<Map<string, FrecencyEntry>> {
   return new Map(entries.map((e) => [e.url, e]));
 }
 
+/** Lifetime visit counts per domain from local frecency data, most visited first (optionally only URLs last visited since `since`). */
+export async function getLocalDomainVisits(since = 0): Promise<Array<{ domain: string; visits: number }>> {
+  const map = await getFrecencyMap();
+  const counts = new Map<string, number>();
+  for (const [url, entry] of map) {
+    if (entry.lastVisit < since) continue;
+    try {
+      if (url.startsWith('chrome://') || url.startsWith('edge://') || url.startsWith('about:')) continue;
+      const d = new URL(url).hostname.replace('www.', '');
+      if (d) counts.set(d, (counts.get(d) ?? 0) + entry.visitCount);
+    } catch { /* ignore */ }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([domain, visits]) => ({ domain, visits }));
+}
+
 export async function recordVisit(url: string): Promise<void> {
   if (!url || url.startsWith('chrome://') || url.startsWith('edge://') || url.startsWith('about:')) return;
   const map = await getFrecencyMap();
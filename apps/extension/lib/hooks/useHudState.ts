@@ -7,6 +7,13 @@ import { getFrecencyMap, computeScore } from '@/lib/frecency';
 import type { TabBookmark } from '@/lib/bookmarks';
 // api-client imported in HudOverlay for AI history search
 
+/** Undo toast; without onUndo, Undo reopens the last closed tab. */
+export interface UndoToastState {
+  message: string;
+  onUndo?: () => void;
+  duration?: number;
+}
+
 export interface OtherWindow {
   windowId: number;
   tabCount: number;
@@ -66,8 +73,8 @@ export interface HudState {
   // UI state
   showCheatSheet: boolean;
   setShowCheatSheet: Dispatch<SetStateAction<boolean>>;
-  undoToast: { message: string } | null;
-  setUndoToast: Dispatch<SetStateAction<{ message: string } | null>>;
+  undoToast: UndoToastState | null;
+  setUndoToast: Dispatch<SetStateAction<UndoToastState | null>>;
 
   // Group filter (click a group pill to show only that group)
   groupFilter: Set<number>;
@@ -110,7 +117,7 @@ export function useHudState(): HudState {
   const [bookmarkedUrls, setBookmarkedUrls] = useState<Set<string>>(new Set());
   const [notesMap, setNotesMap] = useState<Map<string, string>>(new Map());
   const [showCheatSheet, setShowCheatSheet] = useState(false);
-  const [undoToast, setUndoToast] = useState<{ message: string } | null>(null);
+  const [undoToast, setUndoToast] = useState<UndoToastState | null>(null);
   const [otherWindows, setOtherWindows] = useState<OtherWindow[]>([]);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; tabId: number } | null>(null);
   const [thumbnails, setThumbnails] = useState<Map<number, string>>(new Map());
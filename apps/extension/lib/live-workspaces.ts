@@ -0,0 +1,65 @@
+/**
+ * Live workspaces: a workspace bound to a window or a tab group is re-saved whenever its
+ * tabs change, so closing the window never loses the set. Bindings hold browser ids that
+ * don't survive a restart; on startup they're detached (ids cleared) and reattach when the
+ * workspace is restored into a new window.
+ */
+import type { WorkspaceTab, WorkspaceGroup } from './workspaces';
+import { captureWorkspace, isRestorableUrl } from './workspace-capture';
+
+const LIVE_KEY = 'tabflow_live_workspaces';
+
+export interface LiveBinding {
+  kind: 'window' | 'group';
+  windowId: number | null; // null = detached (window closed or browser restarted)
+  groupId: number | null; // only for kind 'group'
+}
+
+export async function getLiveBindings(): Promise<Record<string, LiveBinding>> {
+  const result = await chrome.storage.local.get(LIVE_KEY);
+  return result[LIVE_KEY] ?? {};
+}
+
+export async function setLiveBinding(workspaceId: string, binding: LiveBinding | null): Promise<void> {
+  const bindings = await getLiveBindings();
+  if (binding) bindings[workspaceId] = binding;
+  else delete bindings[workspaceId];
+  await chrome.storage.local.set({ [LIVE_KEY]: bindings });
+}
+
+/** Detach every binding on a window (or just the ones on `groupId`) without unbinding. */
+export async function detachLiveBindings(match: { windowId?: number; groupId?: number } = {}): Promise<void> {
+  const bindings = await getLiveBindings();
+  let changed = false;
+  for (const binding of Object.values(bindings)) {
+    const hit = match.groupId !== undefined
+      ? binding.groupId === match.groupId
+      : match.windowId === undefined || binding.windowId === match.windowId;
+    if (hit && binding.windowId !== null) {
+      binding.windowId = null;
+      binding.groupId = null;
+      changed = true;
+    }
+  }
+  if (changed) await chrome.storage.local.set({ [LIVE_KEY]: bindings });
+}
+
+/** Capture the tabs a binding currently covers. */
+export async function captureLiveBinding(binding: LiveBinding): Promise<{ tabs: WorkspaceTab[]; groups: WorkspaceGroup[] }> {
+  if (binding.windowId === null) return { tabs: [], groups: [] };
+  if (binding.kind === 'window') return captureWorkspace(binding.windowId);
+
+  const group = await chrome.tabGroups.get(binding.groupId!);
+  const tabs = (await chrome.tabs.query({ groupId: group.id }))
+    .filter((t) => isRestorableUrl(t.url))
+    .sort((a, b) => a.index - b.index)
+    .map((t) => ({
+      title: t.title ?? '',
+      url: t.url!,
+      faviconUrl: t.favIconUrl ?? '',
+      windowIndex: 0,
+      groupTitle: group.title ?? '',
+      groupColor: group.color,
+    }));
+  return { tabs, groups: [{ title: group.title ?? '', color: group.color, collapsed: group.collapsed, windowIndex: 0 }] };
+}
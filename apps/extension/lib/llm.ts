@@ -0,0 +1,213 @@
+/**
+ * LLM provider layer for the AI tab agent. Every provider takes the same chat request
+ * and returns the model's text; the wire format (OpenAI-compatible, Anthropic, Gemini)
+ * is picked by the provider's `api`. Base URL, model and key are configurable per
+ * provider, so the agent can point at a self-hosted server (Ollama, llama.cpp, vLLM)
+ * and never send tab titles to a third party. The `tabflow` provider is different: the
+ * TabFlow API holds the key, builds the agent prompt itself from the tabs it's sent, and
+ * enforces per-user quotas — see completeAgentViaServer.
+ */
+import type { TabFlowSettings } from './settings';
+import { agentChat, ApiError, type AgentRequest } from './api-client';
+
+export type LlmProviderId = 'groq' | 'openai-compatible' | 'anthropic' | 'gemini' | 'tabflow';
+
+type LlmApi = 'openai' | 'anthropic' | 'gemini' | 'tabflow';
+
+export interface LlmProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface LlmProviderInfo {
+  label: string;
+  api: LlmApi;
+  keyRequired: boolean;
+  defaults: LlmProviderConfig;
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderInfo> = {
+  groq: {
+    label: 'Groq',
+    api: 'openai',
+    keyRequired: true,
+    defaults: { baseUrl: 'https://api.groq.com/openai/v1', model: 'llama-3.3-70b-versatile', apiKey: '' },
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible (Ollama, llama.cpp, …)',
+    api: 'openai',
+    keyRequired: false,
+    defaults: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+  },
+  anthropic: {
+    label: 'Anthropic',
+    api: 'anthropic',
+    keyRequired: true,
+    defaults: { baseUrl: 'https://api.anthropic.com', model: 'claude-3-5-haiku-latest', apiKey: '' },
+  },
+  gemini: {
+    label: 'Gemini',
+    api: 'gemini',
+    keyRequired: true,
+    defaults: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.0-flash', apiKey: '' },
+  },
+  tabflow: {
+    label: 'TabFlow server (managed key)',
+    api: 'tabflow',
+    keyRequired: false,
+    defaults: { baseUrl: '', model: '', apiKey: '' }, // configured on the server
+  },
+};
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  system: string;
+  messages: ChatMessage[];
+  json?: boolean; // ask for a JSON object back, where the API supports it
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export class LlmError extends Error {
+  constructor(public code: 'no-key' | 'http' | 'empty-response' | 'quota' | 'sign-in', message: string) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/** The active provider and its config: defaults overlaid with the user's overrides. */
+export function resolveLlmProvider(settings: TabFlowSettings): { id: LlmProviderId; info: LlmProviderInfo; config: LlmProviderConfig } {
+  const id = settings.aiProvider in LLM_PROVIDERS ? settings.aiProvider : 'groq';
+  const info = LLM_PROVIDERS[id];
+  const overrides = settings.aiProviders?.[id] ?? {};
+  const config: LlmProviderConfig = {
+    baseUrl: (overrides.baseUrl || info.defaults.baseUrl).replace(/\/+$/, ''),
+    model: overrides.model || info.defaults.model,
+    // Keys saved before providers were configurable live in groqApiKey
+    apiKey: overrides.apiKey || (id === 'groq' ? settings.groqApiKey ?? '' : ''),
+  };
+  return { id, info, config };
+}
+
+/** Send a chat request to the configured provider and return the reply text. */
+export async function completeChat(settings: TabFlowSettings, request: ChatRequest): Promise<string> {
+  const { info, config } = resolveLlmProvider(settings);
+  if (info.keyRequired && !config.apiKey) throw new LlmError('no-key', `No API key set for ${info.label}`);
+  if (info.api === 'tabflow') throw new LlmError('http', 'The TabFlow server provider only runs the tab agent');
+
+  const { url, init, extract } = buildRequest(info.api, config, request);
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const errText = await res.text().catch(() => String(res.status));
+    throw new LlmError('http', errText || String(res.status));
+  }
+  const text = extract(await res.json());
+  if (!text) throw new LlmError('empty-response', 'empty-response');
+  return text;
+}
+
+/** Parse a JSON reply, tolerating the code fences some models wrap it in. */
+export function parseJsonReply<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return JSON.parse(start !== -1 && end > start ? body.slice(start, end + 1) : body);
+}
+
+/** One tab-agent turn on the TabFlow server's managed key. Returns the model's JSON reply text. */
+export async function completeAgentViaServer(request: AgentRequest): Promise<string> {
+  try {
+    const { text } = await agentChat(request);
+    if (!text) throw new LlmError('empty-response', 'empty-response');
+    return text;
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      throw new LlmError('sign-in', 'Sign in to TabFlow to use the server\'s AI agent');
+    }
+    if (err instanceof ApiError && err.status === 429) {
+      throw new LlmError('quota', 'Daily AI agent quota reached — it resets at midnight UTC');
+    }
+    if (err instanceof ApiError) throw new LlmError('http', err.message);
+    throw err;
+  }
+}
+
+interface BuiltRequest {
+  url: string;
+  init: RequestInit;
+  extract: (data: any) => string | undefined;
+}
+
+function buildRequest(api: Exclude<LlmApi, 'tabflow'>, config: LlmProviderConfig, request: ChatRequest): BuiltRequest {
+  const temperature = request.temperature ?? 0.1;
+  const maxTokens = request.maxTokens ?? 1024;
+
+  if (api === 'anthropic') {
+    return {
+      url: `${config.baseUrl}/v1/messages`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          system: request.system,
+          messages: request.messages,
+          temperature,
+          max_tokens: maxTokens,
+        }),
+      },
+      extract: (data) => data?.content?.find((c: { type: string }) => c.type === 'text')?.text,
+    };
+  }
+
+  if (api === 'gemini') {
+    return {
+      url: `${config.baseUrl}/models/${encodeURIComponent(config.model)}:generateContent`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: request.system }] },
+          contents: request.messages.map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: maxTokens,
+            ...(request.json ? { responseMimeType: 'application/json' } : {}),
+          },
+        }),
+      },
+      extract: (data) => data?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text ?? '').join(''),
+    };
+  }
+
+  // OpenAI-compatible chat completions (Groq, OpenAI, Ollama, llama.cpp, vLLM, …)
+  return {
+    url: `${config.baseUrl}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'system', content: request.system }, ...request.messages],
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        temperature,
+        max_tokens: maxTokens,
+      }),
+    },
+    extract: (data) => data?.choices?.[0]?.message?.content,
+  };
+}
@@ -1,4 +1,6 @@
-import { syncNoteToCloud } from './api-client';
+import type { SyncChanges } from './api-client';
+import { sendOrQueue } from './outbox';
+import { getTombstones, addTombstone, clearTombstone } from './tombstones';
 
 export interface TabNote {
   url: string;
@@ -24,9 +26,7 @@ export async function saveNote(url: string, note: string): Promise<TabNote[]> {
 
   if (!trimmed) {
     // Remove note if empty
-    const filtered = notes.filter((n) => n.url !== url);
-    await chrome.storage.local.set({ [NOTES_KEY]: filtered });
-    return filtered;
+    return deleteNote(url);
   }
 
   const existing = notes.find((n) => n.url === url);
@@ -37,7 +37,8 @@ export async function saveNote(url: string, note: string): Promise<TabNote[]> {
     notes.push({ url, note: trimmed, updatedAt: Date.now() });
   }
   await chrome.storage.local.set({ [NOTES_KEY]: notes });
-  syncNoteToCloud(url, trimmed).catch(() => {});
+  await clearTombstone('note', url);
+  sendOrQueue({ kind: 'note', url, content: trimmed }).catch(() => {});
   return notes;
 }
 
@@ -45,6 +46,8 @@ export async function deleteNote(url: string): Promise<TabNote[]> {
   const notes = await getNotes();
   const filtered = notes.filter((n) => n.url !== url);
   await chrome.storage.local.set({ [NOTES_KEY]: filtered });
+  await addTombstone('note', url);
+  sendOrQueue({ kind: 'note-delete', url }).catch(() => {});
   return filtered;
 }
 
@@ -52,3 +55,36 @@ export async function getNotesMap(): Promise<Map<string, string>> {
   const notes = await getNotes();
   return new Map(notes.map((n) => [n.url, n.note]));
 }
+
+/**
+ * Merge notes from the sync change feed, last write wins per URL.
+ * Local tombstones newer than a remote copy keep it from coming back.
+ */
+export async function applyCloudNoteChanges(changes: SyncChanges['notes']): Promise<number> {
+  const tombstones = await getTombstones('note');
+  const notes = new Map((await getNotes()).map((n) => [n.url, n]));
+  let applied = 0;
+
+  for (const t of changes.deleted) {
+    const local = t.url ? notes.get(t.url) : undefined;
+    if (local && local.updatedAt <= Date.parse(t.deletedAt)) {
+      notes.delete(local.url);
+      applied++;
+    }
+  }
+
+  const upserted = [...changes.upserted].sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt));
+  for (const remote of upserted) {
+    const updatedAt = Date.parse(remote.updatedAt);
+    const tombstone = tombstones[remote.url];
+    if (tombstone && tombstone.deletedAt >= updatedAt) continue;
+    const local = notes.get(remote.url);
+    if (local && local.updatedAt >= updatedAt) continue;
+    notes.set(remote.url, { url: remote.url, note: remote.content, updatedAt });
+    if (tombstone) await clearTombstone('note', remote.url);
+    applied++;
+  }
+
+  if (applied > 0) await chrome.storage.local.set({ [NOTES_KEY]: [...notes.values()] });
+  return applied;
+}
@@ -0,0 +1,246 @@
+/**
+ * Persistent outbox for cloud writes. Every write is attempted immediately; if the API
+ * is unreachable it's queued in storage and retried by the background `outbox-flush`
+ * alarm with exponential backoff, so edits made offline reach the server eventually.
+ *
+ * Writes to the same thing share a coalescing key (one note URL, one bookmark URL,
+ * settings, one workspace, one page embedding), and a newer write replaces any queued one with that key.
+ * Writes under one key go out one at a time, whether sent directly or by a flush, so an
+ * older write can never reach the server after a newer one.
+ * Analytics visits aren't coalesced — each one counts — but their backlog is capped, as is
+ * the backlog of page embeddings (derived data, cheap to lose).
+ *
+ * The queue is owned by the background service worker; other contexts forward their
+ * writes to it. Workspace upserts aren't queued here: the sync pass already retries
+ * them from its per-workspace bases.
+ */
+import {
+  ApiError,
+  syncNoteToCloud,
+  deleteNoteFromCloud,
+  syncBookmarkToCloud,
+  deleteBookmarkFromCloud,
+  syncSettingsToCloud,
+  deleteWorkspace as deleteCloudWorkspace,
+  recordVisit,
+  embedTab,
+  type VisitReport,
+} from './api-client';
+import { markTombstoneSynced } from './tombstones';
+
+export type OutboxOp =
+  | { kind: 'note'; url: string; content: string }
+  | { kind: 'note-delete'; url: string }
+  | { kind: 'bookmark'; url: string; title: string; faviconUrl: string }
+  | { kind: 'bookmark-delete'; url: string }
+  | { kind: 'settings'; settings: Record<string, unknown> }
+  | { kind: 'workspace-delete'; id: string }
+  | ({ kind: 'visit' } & VisitReport)
+  | { kind: 'embed'; url: string; title: string; summary: string };
+
+interface OutboxEntry {
+  id: string;
+  key: string | null; // null = never coalesced
+  op: OutboxOp;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const OUTBOX_KEY = 'tabflow_outbox';
+const MAX_QUEUED_VISITS = 200;
+const MAX_QUEUED_EMBEDS = 100;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+function coalesceKey(op: OutboxOp): string | null {
+  switch (op.kind) {
+    case 'note':
+    case 'note-delete':
+      return `note:${op.url}`;
+    case 'bookmark':
+    case 'bookmark-delete':
+      return `bookmark:${op.url}`;
+    case 'settings':
+      return 'settings';
+    case 'workspace-delete':
+      return `workspace:${op.id}`;
+    case 'embed':
+      return `embed:${op.url}`;
+    case 'visit':
+      return null;
+  }
+}
+
+async function perform(op: OutboxOp): Promise<void> {
+  switch (op.kind) {
+    case 'note':
+      return syncNoteToCloud(op.url, op.content);
+    case 'note-delete':
+      await deleteNoteFromCloud(op.url);
+      return markTombstoneSynced('note', op.url);
+    case 'bookmark':
+      return syncBookmarkToCloud(op.url, op.title, op.faviconUrl);
+    case 'bookmark-delete':
+      await deleteBookmarkFromCloud(op.url);
+      return markTombstoneSynced('bookmark', op.url);
+    case 'settings':
+      return syncSettingsToCloud(op.settings);
+    case 'workspace-delete':
+      return deleteCloudWorkspace(op.id);
+    case 'visit':
+      return recordVisit({
+        visitId: op.visitId,
+        url: op.url,
+        domain: op.domain,
+        durationMs: op.durationMs,
+        title: op.title,
+        startedAt: op.startedAt,
+        continued: op.continued,
+      });
+    case 'embed':
+      return embedTab(op.url, op.title, op.summary);
+  }
+}
+
+/** Client errors other than auth/rate limiting will fail the same way on every retry. */
+function isPermanent(err: unknown): boolean {
+  return err instanceof ApiError && err.status >= 400 && err.status < 500
+    && err.status !== 401 && err.status !== 408 && err.status !== 429;
+}
+
+function backoff(attempts: number): number {
+  return Date.now() + Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+async function getEntries(): Promise<OutboxEntry[]> {
+  const result = await chrome.storage.local.get(OUTBOX_KEY);
+  return result[OUTBOX_KEY] || [];
+}
+
+async function setEntries(entries: OutboxEntry[]): Promise<void> {
+  await chrome.storage.local.set({ [OUTBOX_KEY]: entries });
+}
+
+// Serializes read-modify-write of the queue within the service worker
+let queueLock: Promise<unknown> = Promise.resolve();
+function withQueue<T>(fn: (entries: OutboxEntry[]) => Promise<{ entries: OutboxEntry[]; value: T }>): Promise<T> {
+  const run = queueLock.then(async () => {
+    const { entries, value } = await fn(await getEntries());
+    await setEntries(entries);
+    return value;
+  });
+  queueLock = run.catch(() => {});
+  return run;
+}
+
+// Per-key chains: each write for a key waits for the previous one to settle
+const keyChains = new Map<string, Promise<unknown>>();
+function withKey<T>(key: string | null, fn: () => Promise<T>): Promise<T> {
+  if (!key) return fn();
+  const run = (keyChains.get(key) ?? Promise.resolve()).then(fn);
+  const tail = run.catch(() => {});
+  keyChains.set(key, tail);
+  tail.then(() => { if (keyChains.get(key) === tail) keyChains.delete(key); });
+  return run;
+}
+
+function isBackground(): boolean {
+  return import.meta.env.ENTRYPOINT === 'background';
+}
+
+/**
+ * Send a cloud write now, queueing it for retry if that fails.
+ * Safe to call from any extension context; resolves once the write is sent or queued.
+ */
+export async function sendOrQueue(op: OutboxOp): Promise<void> {
+  if (!isBackground()) {
+    await chrome.runtime.sendMessage({ type: 'outbox-send', payload: { op } });
+    return;
+  }
+
+  const key = coalesceKey(op);
+  await withKey(key, async () => {
+    // A newer write supersedes whatever is still queued for the same key
+    if (key) await withQueue(async (entries) => ({ entries: entries.filter((e) => e.key !== key), value: null }));
+
+    try {
+      await perform(op);
+    } catch (err) {
+      if (isPermanent(err)) return;
+      await withQueue(async (entries) => {
+        const entry: OutboxEntry = { id: crypto.randomUUID(), key, op, attempts: 1, nextAttemptAt: backoff(1) };
+        const next = [...entries.filter((e) => !key || e.key !== key), entry];
+        const oldest = (kind: OutboxOp['kind'], max: number) => {
+          const ofKind = next.filter((e) => e.op.kind === kind);
+          return ofKind.slice(0, Math.max(0, ofKind.length - max)).map((e) => e.id);
+        };
+        const overflow = new Set([...oldest('visit', MAX_QUEUED_VISITS), ...oldest('embed', MAX_QUEUED_EMBEDS)]);
+        return { entries: next.filter((e) => !overflow.has(e.id)), value: null };
+      });
+    }
+  });
+}
+
+let inFlight: Promise<number> | null = null;
+
+/**
+ * Retry every queued write that's due. Stops at the first transient failure, since the
+ * rest would almost certainly fail the same way. Concurrent callers share the pass that's
+ * already running, so no entry is sent twice. Background only.
+ */
+export function flushOutbox(): Promise<number> {
+  if (!inFlight) {
+    inFlight = runFlush().finally(() => { inFlight = null; });
+  }
+  return inFlight;
+}
+
+async function runFlush(): Promise<number> {
+  const due = (await getEntries()).filter((e) => e.nextAttemptAt <= Date.now());
+  let sent = 0;
+
+  for (const { id, key } of due) {
+    const outcome = await withKey(key, async () => {
+      // Re-read now that we hold the key: a newer write may have replaced this one since
+      // the pass began, and then it must not be sent at all
+      const entry = await withQueue(async (entries) => ({ entries, value: entries.find((e) => e.id === id) }));
+      if (!entry) return 'skipped';
+
+      let failed = false;
+      let drop = false;
+      try {
+        await perform(entry.op);
+        sent++;
+        drop = true;
+      } catch (err) {
+        failed = true;
+        drop = isPermanent(err);
+      }
+
+      await withQueue(async (entries) => {
+        const idx = entries.findIndex((e) => e.id === id);
+        if (idx === -1) return { entries, value: null }; // trimmed as overflow meanwhile
+        if (drop) return { entries: entries.filter((e) => e.id !== id), value: null };
+        const attempts = entries[idx].attempts + 1;
+        entries[idx] = { ...entries[idx], attempts, nextAttemptAt: backoff(attempts) };
+        return { entries, value: null };
+      });
+      return failed && !drop ? 'failed' : 'done';
+    });
+
+    if (outcome === 'failed') break;
+  }
+  return sent;
+}
+
+/** Drop whatever is queued under the same key as `op` (e.g. a delete that's been undone). */
+export async function cancelQueued(op: OutboxOp): Promise<void> {
+  const key = coalesceKey(op);
+  if (!key) return;
+  // Behind any send in progress for the key, so callers can safely write after this
+  await withKey(key, () => withQueue(async (entries) => ({ entries: entries.filter((e) => e.key !== key), value: null })));
+}
+
+export async function getPendingCount(): Promise<number> {
+  return (await getEntries()).length;
+}
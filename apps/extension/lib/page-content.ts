@@ -0,0 +1,117 @@
+/**
+ * Readable page content for semantic search. The content script pulls a page's meta
+ * description, headings and main text into a short summary; the background throttles
+ * per URL and sends it to /api/ai/embed (through the outbox), so tabs can be found by
+ * what's on the page rather than just title and URL.
+ *
+ * Off unless the user turns it on, since page text leaves the browser. Even then nothing is
+ * read on domains the user opted out of or on pages with a password field.
+ */
+import type { TabFlowSettings } from './settings';
+
+export const MAX_SUMMARY_CHARS = 5000; // server-side limit on contentSummary
+const MAX_MAIN_TEXT_CHARS = 3500;
+const MAX_HEADINGS = 12;
+const MAX_TEXT_NODES = 4000; // bail out of huge DOMs early
+const RESEND_AFTER_MS = 24 * 60 * 60 * 1000;
+const MAX_SENT_ENTRIES = 500;
+const SENT_KEY = 'tabflow_page_content_sent';
+
+// Page chrome that isn't part of what the page is about
+const SKIP_SELECTOR = 'script, style, noscript, template, svg, nav, header, footer, aside, form, button, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+
+export interface PageContent {
+  url: string;
+  title: string;
+  summary: string;
+}
+
+function clean(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/** Normalize what the user typed into the opt-out list ("https://www.Example.com/x" → "example.com"). */
+export function normalizeDomain(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  return hostOf(trimmed.includes('://') ? trimmed : `https://${trimmed}`) || trimmed;
+}
+
+/** Whether a page's content may be read, per settings and the opt-out list (subdomains included). */
+export function isPageContentAllowed(url: string, settings: TabFlowSettings): boolean {
+  if (!settings.pageContentIndexing || !/^https?:/.test(url)) return false;
+  const host = hostOf(url);
+  return !settings.pageContentExcludedDomains.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+function mainRoot(doc: Document): Element {
+  return doc.querySelector('article, main, [role="main"]') ?? doc.body;
+}
+
+function mainText(root: Element): string {
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const parts: string[] = [];
+  let length = 0;
+  for (let i = 0; i < MAX_TEXT_NODES && length < MAX_MAIN_TEXT_CHARS; i++) {
+    const node = walker.nextNode();
+    if (!node) break;
+    if (node.parentElement?.closest(SKIP_SELECTOR)) continue;
+    const text = clean(node.textContent);
+    if (text.length < 2) continue;
+    parts.push(text);
+    length += text.length + 1;
+  }
+  return parts.join(' ').slice(0, MAX_MAIN_TEXT_CHARS);
+}
+
+/** Summarize the current page, or null when there's nothing worth sending. */
+export function extractPageContent(doc: Document): PageContent | null {
+  if (!doc.body || doc.querySelector('input[type="password"]')) return null;
+
+  const description = clean(
+    doc.querySelector('meta[name="description"]')?.getAttribute('content')
+    ?? doc.querySelector('meta[property="og:description"]')?.getAttribute('content'),
+  );
+  const headings = [...doc.querySelectorAll('h1, h2, h3')]
+    .map((h) => clean(h.textContent))
+    .filter((h) => h.length > 1)
+    .slice(0, MAX_HEADINGS);
+  const text = mainText(mainRoot(doc));
+
+  const summary = [description, headings.join(' · '), text]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_SUMMARY_CHARS);
+  if (summary.length < 40) return null;
+  return { url: doc.location.href.split('#')[0], title: clean(doc.title).slice(0, 512), summary };
+}
+
+function hashText(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0;
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * Throttle: true if this summary should go to the server — the URL wasn't sent in the
+ * last day, or its content changed since. Records the send. Background only.
+ */
+export async function claimPageContentSend(content: PageContent): Promise<boolean> {
+  const result = await chrome.storage.local.get(SENT_KEY);
+  const sent: Record<string, { hash: string; at: number }> = result[SENT_KEY] || {};
+  const hash = hashText(content.summary);
+  const prev = sent[content.url];
+  if (prev && prev.hash === hash && Date.now() - prev.at < RESEND_AFTER_MS) return false;
+
+  sent[content.url] = { hash, at: Date.now() };
+  const entries = Object.entries(sent).sort((a, b) => b[1].at - a[1].at).slice(0, MAX_SENT_ENTRIES);
+  await chrome.storage.local.set({ [SENT_KEY]: Object.fromEntries(entries) });
+  return true;
+}
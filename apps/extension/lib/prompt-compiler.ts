@@ -0,0 +1,96 @@
+/**
+ * Builds the tab section of the AI agent's prompt within a token budget. Tabs are ranked
+ * by relevance to the request (fuzzy match on each query word, frecency, current window,
+ * active/pinned/audible), titles are shortened, and lines are grouped under their domain
+ * so it's written once. Tabs that don't fit are summarized by domain; the model can still
+ * reach them through the search_tabs tool, and every listed tab keeps its real tabId.
+ * Only domains are sent, never full URLs. Lines use the shared agent prompt's format.
+ */
+import { formatTabLine } from '@shared/agent-prompt';
+import type { TabInfo } from './types';
+import { searchTabs } from './fuse-search';
+import { computeScore, type FrecencyEntry } from './frecency';
+
+const STOP_WORDS = new Set(['the', 'and', 'all', 'my', 'tabs', 'tab', 'close', 'open', 'group', 'into', 'with', 'from', 'that', 'this', 'for', 'them', 'except', 'keep', 'leave']);
+
+/** Rough token count (~4 characters per token for English text). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export interface CompileOptions {
+  budgetTokens: number;
+  currentWindowId?: number;
+  frecency?: Map<string, FrecencyEntry>;
+  notesMap?: Map<string, string>;
+}
+
+export interface CompiledTabList {
+  text: string;
+  tabs: TabInfo[]; // the listed tabs, most relevant first
+  shown: number;
+  omitted: number;
+}
+
+export function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url.slice(0, 40);
+  }
+}
+
+function rankTabs(tabs: TabInfo[], query: string, opts: CompileOptions): TabInfo[] {
+  const score = new Map<number, number>(tabs.map((t) => [t.tabId, 0]));
+  const bump = (tabId: number, by: number) => score.set(tabId, (score.get(tabId) ?? 0) + by);
+
+  // Fuzzy-match each meaningful word; a full sentence rarely matches anything as a whole
+  const terms = [...new Set(query.toLowerCase().split(/[^\p{L}\p{N}.:-]+/u))]
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+  for (const term of terms) {
+    const matches = searchTabs(tabs, term, 0.35, opts.notesMap);
+    matches.forEach((t, rank) => bump(t.tabId, 4 * (1 - rank / Math.max(matches.length, 1))));
+  }
+
+  for (const t of tabs) {
+    const entry = opts.frecency?.get(t.url);
+    if (entry) bump(t.tabId, Math.min(computeScore(entry), 5) * 0.3);
+    if (t.windowId === opts.currentWindowId) bump(t.tabId, 1);
+    if (t.isActive) bump(t.tabId, 2);
+    if (t.isPinned || t.isAudible) bump(t.tabId, 0.5);
+  }
+
+  // Stable: ties keep MRU order
+  return tabs
+    .map((t, i) => ({ t, i, s: score.get(t.tabId) ?? 0 }))
+    .sort((a, b) => b.s - a.s || a.i - b.i)
+    .map((x) => x.t);
+}
+
+/** Compile the tab list for the prompt, most relevant tabs first, within `budgetTokens`. */
+export function compileTabList(tabs: TabInfo[], query: string, opts: CompileOptions): CompiledTabList {
+  const ranked = rankTabs(tabs, query, opts);
+  const byDomain = new Map<string, string[]>(); // insertion order = best-ranked domain first
+  let tokens = 0;
+  let shown = 0;
+
+  for (const t of ranked) {
+    const domain = domainOf(t.url);
+    const line = formatTabLine(t, domain);
+    const cost = estimateTokens(line) + (byDomain.has(domain) ? 0 : estimateTokens(`${domain}:`));
+    if (tokens + cost > opts.budgetTokens) break;
+    tokens += cost;
+    shown++;
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), line]);
+  }
+
+  const lines = [...byDomain.entries()].flatMap(([domain, tabLines]) => [`${domain}:`, ...tabLines]);
+  const omittedTabs = ranked.slice(shown);
+  if (omittedTabs.length > 0) {
+    const counts = new Map<string, number>();
+    for (const t of omittedTabs) counts.set(domainOf(t.url), (counts.get(domainOf(t.url)) ?? 0) + 1);
+    const top = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 8).map(([d, n]) => `${d} ${n}`).join(', ');
+    lines.push(`(+${omittedTabs.length} less relevant tabs not listed — ${top}. Use search_tabs to find their tabIds.)`);
+  }
+  return { text: lines.join('\n'), tabs: ranked.slice(0, shown), shown, omitted: omittedTabs.length };
+}
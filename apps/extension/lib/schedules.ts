@@ -0,0 +1,119 @@
+/**
+ * Workspace schedules: open a workspace at set days/times, optionally saving and closing
+ * another one right after (e.g. close "Deep work" when "Standup" opens). Closing comes
+ * second so the browser never drops to zero windows, and skips the windows just opened. Each enabled schedule
+ * has a one-shot `workspace-schedule:<id>` alarm that the background re-arms after it fires.
+ * Deleting a workspace drops the schedules that open it.
+ */
+const SCHEDULES_KEY = 'tabflow_workspace_schedules';
+const WORKSPACE_WINDOWS_KEY = 'tabflow_workspace_windows';
+
+export const SCHEDULE_ALARM_PREFIX = 'workspace-schedule:';
+
+export interface WorkspaceSchedule {
+  id: string;
+  openWorkspaceId: string;
+  closeWorkspaceId: string | null; // saved and closed after opening, if set (only windows TabFlow opened for it)
+  days: number[]; // 0 = Sunday … 6 = Saturday
+  time: string; // "HH:MM", local time
+  enabled: boolean;
+}
+
+export async function getSchedules(): Promise<WorkspaceSchedule[]> {
+  const result = await chrome.storage.local.get(SCHEDULES_KEY);
+  return result[SCHEDULES_KEY] || [];
+}
+
+/** Insert or replace by id. */
+export async function saveSchedule(schedule: WorkspaceSchedule): Promise<WorkspaceSchedule[]> {
+  const schedules = await getSchedules();
+  const idx = schedules.findIndex((s) => s.id === schedule.id);
+  if (idx === -1) schedules.push(schedule);
+  else schedules[idx] = schedule;
+  await chrome.storage.local.set({ [SCHEDULES_KEY]: schedules });
+  return schedules;
+}
+
+export async function deleteSchedule(id: string): Promise<WorkspaceSchedule[]> {
+  const schedules = (await getSchedules()).filter((s) => s.id !== id);
+  await chrome.storage.local.set({ [SCHEDULES_KEY]: schedules });
+  return schedules;
+}
+
+/**
+ * Forget deleted workspaces: schedules that open one are removed (with their alarms),
+ * and ones that only close it stop doing so. Returns the affected schedules as they were,
+ * so an undo can put them back.
+ */
+export async function dropWorkspaceSchedules(workspaceIds: string[]): Promise<WorkspaceSchedule[]> {
+  const ids = new Set(workspaceIds);
+  const schedules = await getSchedules();
+  const affected = schedules.filter((s) => ids.has(s.openWorkspaceId) || (s.closeWorkspaceId !== null && ids.has(s.closeWorkspaceId)));
+  if (affected.length === 0) return [];
+  const kept = schedules
+    .filter((s) => !ids.has(s.openWorkspaceId))
+    .map((s) => (s.closeWorkspaceId !== null && ids.has(s.closeWorkspaceId) ? { ...s, closeWorkspaceId: null } : s));
+  await chrome.storage.local.set({ [SCHEDULES_KEY]: kept });
+  for (const s of affected) {
+    if (ids.has(s.openWorkspaceId)) await chrome.alarms.clear(`${SCHEDULE_ALARM_PREFIX}${s.id}`);
+  }
+  return affected;
+}
+
+/** Put schedules back as they were, by id (e.g. an undone workspace delete). Background only. */
+export async function restoreSchedules(restored: WorkspaceSchedule[]): Promise<void> {
+  if (restored.length === 0) return;
+  const ids = new Set(restored.map((s) => s.id));
+  const schedules = (await getSchedules()).filter((s) => !ids.has(s.id));
+  await chrome.storage.local.set({ [SCHEDULES_KEY]: [...schedules, ...restored] });
+  await armScheduleAlarms();
+}
+
+/** Next time (ms) the schedule should fire strictly after `from`, or null if it never will. */
+export function nextRunAt(schedule: WorkspaceSchedule, from = Date.now()): number | null {
+  if (!schedule.enabled || schedule.days.length === 0) return null;
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from);
+    candidate.setDate(candidate.getDate() + offset);
+    candidate.setHours(hours, minutes, 0, 0);
+    if (candidate.getTime() > from && schedule.days.includes(candidate.getDay())) return candidate.getTime();
+  }
+  return null;
+}
+
+/** Replace every schedule alarm with one per enabled schedule. Background only. */
+export async function armScheduleAlarms(): Promise<void> {
+  const [schedules, alarms] = await Promise.all([getSchedules(), chrome.alarms.getAll()]);
+  for (const alarm of alarms) {
+    if (alarm.name.startsWith(SCHEDULE_ALARM_PREFIX)) await chrome.alarms.clear(alarm.name);
+  }
+  for (const schedule of schedules) {
+    const when = nextRunAt(schedule);
+    if (when !== null) chrome.alarms.create(`${SCHEDULE_ALARM_PREFIX}${schedule.id}`, { when });
+  }
+}
+
+// ---- Windows opened for a workspace ----
+// Restoring into new windows records them here so save-and-close knows which tabs
+// belong to the workspace.
+
+export async function getWorkspaceWindows(workspaceId: string): Promise<number[]> {
+  const result = await chrome.storage.local.get(WORKSPACE_WINDOWS_KEY);
+  return (result[WORKSPACE_WINDOWS_KEY] ?? {})[workspaceId] ?? [];
+}
+
+/** Window ids don't survive a browser restart, so the map is reset on startup. */
+export async function clearWorkspaceWindows(): Promise<void> {
+  await chrome.storage.local.remove(WORKSPACE_WINDOWS_KEY);
+}
+
+export async function setWorkspaceWindows(workspaceId: string, windowIds: number[]): Promise<void> {
+  const result = await chrome.storage.local.get(WORKSPACE_WINDOWS_KEY);
+  const map: Record<string, number[]> = result[WORKSPACE_WINDOWS_KEY] ?? {};
+  if (windowIds.length > 0) map[workspaceId] = windowIds;
+  else delete map[workspaceId];
+  await chrome.storage.local.set({ [WORKSPACE_WINDOWS_KEY]: map });
+}
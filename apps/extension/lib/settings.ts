@@ -1,4 +1,5 @@
-import { syncSettingsToCloud } from './api-client';
+import { sendOrQueue } from './outbox';
+import type { LlmProviderId, LlmProviderConfig } from './llm';
 
 export interface TabFlowSettings {
   searchThreshold: number; // 0.0 (exact) to 1.0 (loose), default 0.4
@@ -10,7 +11,13 @@ export interface TabFlowSettings {
   autoSuspendMinutes: number; // minutes of inactivity before discarding
   gridColumns: number; // 0 = auto (responsive), otherwise fixed column count
   hideTodayTabs: boolean; // hide tabs last accessed today
-  groqApiKey?: string; // Groq API key for AI tab agent
+  groqApiKey?: string; // Groq API key for AI tab agent (kept for keys saved before aiProviders)
+  aiProvider: LlmProviderId; // which LLM the AI tab agent talks to
+  aiProviders: Partial<Record<LlmProviderId, Partial<LlmProviderConfig>>>; // per-provider base URL/model/key overrides
+  aiDryRun: boolean; // show the agent's plan and wait for confirmation before running it
+  aiTokenBudget: number; // approximate prompt size the agent may send, in tokens
+  pageContentIndexing: boolean; // send page summaries to the server for semantic search
+  pageContentExcludedDomains: string[]; // never read pages on these domains (or their subdomains)
 }
 
 const SETTINGS_KEY = 'tabflow_settings';
@@ -26,6 +33,12 @@ const DEFAULT_SETTINGS: TabFlowSettings = {
   gridColumns: 0,
   hideTodayTabs: false,
   groqApiKey: '',
+  aiProvider: 'groq',
+  aiProviders: {},
+  aiDryRun: true,
+  aiTokenBudget: 6000,
+  pageContentIndexing: false, // opt-in: page text leaves the browser
+  pageContentExcludedDomains: [],
 };
 
 export async function getSettings(): Promise<TabFlowSettings> {
@@ -33,10 +46,20 @@ export async function getSettings(): Promise<TabFlowSettings> {
   return { ...DEFAULT_SETTINGS, ...result[SETTINGS_KEY] };
 }
 
+/** Settings as synced to the cloud: AI provider API keys never leave this browser. */
+function withoutApiKeys(settings: TabFlowSettings): Record<string, unknown> {
+  const synced: Record<string, unknown> = { ...settings };
+  delete synced.groqApiKey;
+  synced.aiProviders = Object.fromEntries(
+    Object.entries(settings.aiProviders).map(([id, config]) => [id, { ...config, apiKey: undefined }]),
+  );
+  return synced;
+}
+
 export async function saveSettings(settings: Partial<TabFlowSettings>): Promise<TabFlowSettings> {
   const current = await getSettings();
   const updated = { ...current, ...settings };
   await chrome.storage.local.set({ [SETTINGS_KEY]: updated });
-  syncSettingsToCloud(updated as unknown as Record<string, unknown>).catch(() => {});
+  sendOrQueue({ kind: 'settings', settings: withoutApiKeys(updated) }).catch(() => {});
   return updated;
 }
@@ -0,0 +1,231 @@
+/**
+ * Workspace cloud sync — polls /api/sync/changes for what other devices wrote since our
+ * cursor, merges it with local storage by id, pushes local changes, and records conflicts
+ * instead of silently overwriting either side.
+ *
+ * For every synced workspace we remember the updatedAt of both copies at the last
+ * successful sync (the "base"). A side whose updatedAt moved past its base has changed;
+ * if both sides changed to different content, that's a conflict for the user to resolve.
+ * Workspaces absent from the change feed haven't changed on the server since the cursor.
+ * The feed re-sends a short window before the cursor, so every merge must be idempotent.
+ *
+ * Notes and bookmarks ride along on the same feed; they're keyed by URL and merged
+ * last-write-wins in their own libs, with local tombstones blocking resurrection.
+ */
+import { getValidToken } from './auth';
+import {
+  getChanges,
+  getWorkspaces as getCloudWorkspaces,
+  upsertWorkspace as upsertCloudWorkspace,
+  deleteWorkspace as deleteCloudWorkspace,
+  type Workspace as CloudWorkspace,
+} from './api-client';
+import { getWorkspaces, applyWorkspaceChanges, workspaceUpdatedAt, sameWorkspaceContent, type Workspace } from './workspaces';
+import { applyCloudNoteChanges } from './notes';
+import { applyCloudBookmarkChanges } from './bookmarks';
+
+const SYNC_STATE_KEY = 'tabflow_sync_state';
+const CONFLICTS_KEY = 'tabflow_sync_conflicts';
+
+interface SyncBase {
+  local: number; // local updatedAt at last sync
+  remote: string; // server updatedAt at last sync
+}
+
+interface SyncState {
+  lastSyncAt: number | null;
+  cursor: string | null; // /api/sync/changes cursor from the last completed pass
+  workspaces: Record<string, SyncBase>;
+}
+
+export interface WorkspaceConflict {
+  id: string;
+  name: string;
+  local: Workspace | null; // null = deleted on this device
+  remote: Workspace | null; // null = deleted on another device
+  detectedAt: number;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  deleted: number;
+  conflicts: number;
+}
+
+export async function getSyncState(): Promise<SyncState> {
+  const result = await chrome.storage.local.get(SYNC_STATE_KEY);
+  return { lastSyncAt: null, cursor: null, workspaces: {}, ...result[SYNC_STATE_KEY] };
+}
+
+async function setSyncState(state: SyncState): Promise<void> {
+  await chrome.storage.local.set({ [SYNC_STATE_KEY]: state });
+}
+
+export async function getConflicts(): Promise<WorkspaceConflict[]> {
+  const result = await chrome.storage.local.get(CONFLICTS_KEY);
+  return result[CONFLICTS_KEY] || [];
+}
+
+async function setConflicts(conflicts: WorkspaceConflict[]): Promise<void> {
+  await chrome.storage.local.set({ [CONFLICTS_KEY]: conflicts });
+}
+
+function fromCloud(remote: CloudWorkspace): Workspace {
+  return {
+    id: remote.id,
+    name: remote.name,
+    createdAt: Date.parse(remote.createdAt),
+    updatedAt: Date.parse(remote.updatedAt),
+    tabs: remote.tabs.map((t) => ({ ...t, faviconUrl: t.faviconUrl ?? '' })),
+    groups: remote.groups ?? undefined,
+  };
+}
+
+async function push(ws: Workspace): Promise<SyncBase> {
+  const tabs = ws.tabs.map((t) => ({ ...t, faviconUrl: t.faviconUrl || undefined }));
+  const saved = await upsertCloudWorkspace(ws.id, ws.name, tabs, ws.groups);
+  return { local: workspaceUpdatedAt(ws), remote: saved.updatedAt };
+}
+
+let inFlight: Promise<SyncResult | null> | null = null;
+
+/**
+ * Run one sync pass. Returns null when signed out (workspaces stay local-only).
+ * Concurrent callers share the pass that's already running.
+ */
+export function syncWorkspaces(): Promise<SyncResult | null> {
+  if (!inFlight) {
+    inFlight = runSync().finally(() => { inFlight = null; });
+  }
+  return inFlight;
+}
+
+async function runSync(): Promise<SyncResult | null> {
+  if (!(await getValidToken())) return null;
+
+  const [localList, state, conflicts] = await Promise.all([getWorkspaces(), getSyncState(), getConflicts()]);
+  const changes = await getChanges(state.cursor);
+
+  const localMap = new Map(localList.map((w) => [w.id, w]));
+  const remoteMap = new Map(changes.workspaces.upserted.map((w) => [w.id, fromCloud(w)]));
+  const remoteStamps = new Map(changes.workspaces.upserted.map((w) => [w.id, w.updatedAt]));
+  const tombstones = new Map(changes.workspaces.deleted.map((t) => [t.id, Date.parse(t.deletedAt)]));
+  const conflicted = new Set(conflicts.map((c) => c.id));
+  const ids = new Set([...localMap.keys(), ...remoteMap.keys(), ...tombstones.keys(), ...Object.keys(state.workspaces)]);
+
+  const result: SyncResult = { pulled: 0, pushed: 0, deleted: 0, conflicts: 0 };
+  const localUpserts: Workspace[] = [];
+  const localDeletes: string[] = [];
+  const newConflicts: WorkspaceConflict[] = [];
+  const bases = { ...state.workspaces };
+
+  const conflict = (id: string, local: Workspace | null, remote: Workspace | null) => {
+    newConflicts.push({ id, name: (local ?? remote)!.name, local, remote, detectedAt: Date.now() });
+    result.conflicts++;
+  };
+
+  for (const id of ids) {
+    // Leave conflicted workspaces untouched until the user picks a side
+    if (conflicted.has(id)) continue;
+
+    const local = localMap.get(id) ?? null;
+    const remote = remoteMap.get(id) ?? null;
+    const remoteStamp = remoteStamps.get(id);
+    const base = bases[id];
+    const localChanged = !!local && (!base || workspaceUpdatedAt(local) !== base.local);
+    const remoteChanged = !!remoteStamp && (!base || remoteStamp !== base.remote);
+
+    // A tombstone older than the local copy was already applied (the feed re-sends a window
+    // before the cursor) and the workspace restored since, e.g. by an undo: not a delete
+    const deletedAt = tombstones.get(id);
+    const tombstoned = deletedAt !== undefined && !(local && workspaceUpdatedAt(local) > deletedAt);
+
+    try {
+      if (tombstoned) {
+        // Deleted on another device
+        if (!local) {
+          delete bases[id];
+        } else if (base && !localChanged) {
+          localDeletes.push(id);
+          delete bases[id];
+          result.deleted++;
+        } else {
+          conflict(id, local, null); // edited here, deleted elsewhere
+        }
+      } else if (remote) {
+        if (!local) {
+          if (!base) {
+            localUpserts.push(remote);
+            bases[id] = { local: workspaceUpdatedAt(remote), remote: remoteStamp! };
+            result.pulled++;
+          } else if (remoteChanged) {
+            conflict(id, null, remote); // deleted here, edited elsewhere
+          } else {
+            await deleteCloudWorkspace(id);
+            delete bases[id];
+            result.deleted++;
+          }
+        } else if (sameWorkspaceContent(local, remote)) {
+          bases[id] = { local: workspaceUpdatedAt(local), remote: remoteStamp! };
+        } else if (!base || (localChanged && remoteChanged)) {
+          conflict(id, local, remote);
+        } else if (localChanged) {
+          bases[id] = await push(local);
+          result.pushed++;
+        } else if (remoteChanged) {
+          localUpserts.push(remote);
+          bases[id] = { local: workspaceUpdatedAt(remote), remote: remoteStamp! };
+          result.pulled++;
+        }
+      } else if (local) {
+        // Unchanged on the server since our cursor
+        if (localChanged) {
+          bases[id] = await push(local);
+          result.pushed++;
+        }
+      } else if (base) {
+        // Deleted on this device, still live on the server
+        await deleteCloudWorkspace(id);
+        delete bases[id];
+        result.deleted++;
+      }
+    } catch {
+      // Leave this workspace's base untouched so it's retried on the next pass
+    }
+  }
+
+  await applyWorkspaceChanges(localUpserts, localDeletes);
+  await applyCloudNoteChanges(changes.notes);
+  await applyCloudBookmarkChanges(changes.bookmarks);
+  await setSyncState({ lastSyncAt: Date.now(), cursor: changes.cursor, workspaces: bases });
+  if (newConflicts.length > 0) await setConflicts([...conflicts, ...newConflicts]);
+  return result;
+}
+
+/** Resolve a conflict by keeping one side and overwriting the other with it. */
+export async function resolveConflict(id: string, keep: 'local' | 'remote'): Promise<void> {
+  const conflicts = await getConflicts();
+  const entry = conflicts.find((c) => c.id === id);
+  if (!entry) return;
+
+  const state = await getSyncState();
+  const winner = keep === 'local' ? entry.local : entry.remote;
+  if (winner) {
+    if (keep === 'local') {
+      state.workspaces[id] = await push(winner);
+    } else {
+      await applyWorkspaceChanges([winner], []);
+      // Re-read the server copy so the base matches its exact timestamp
+      const remote = (await getCloudWorkspaces()).find((w) => w.id === id);
+      if (remote) state.workspaces[id] = { local: workspaceUpdatedAt(winner), remote: remote.updatedAt };
+    }
+  } else {
+    if (keep === 'local') await deleteCloudWorkspace(id);
+    else await applyWorkspaceChanges([], [id]);
+    delete state.workspaces[id];
+  }
+
+  await setSyncState(state);
+  await setConflicts(conflicts.filter((c) => c.id !== id));
+}
@@ -0,0 +1,49 @@
+/**
+ * Notes and bookmarks deleted on this device, keyed by URL. A sync pull can still carry a
+ * copy written before the server saw our delete; the tombstone tells the merge to drop it.
+ * `synced` flips once the server acknowledges the delete (see lib/outbox).
+ */
+export type TombstoneKind = 'note' | 'bookmark';
+
+export interface LocalTombstone {
+  deletedAt: number;
+  synced: boolean;
+}
+
+type TombstoneStore = Record<TombstoneKind, Record<string, LocalTombstone>>;
+
+const TOMBSTONES_KEY = 'tabflow_tombstones';
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+async function getStore(): Promise<TombstoneStore> {
+  const result = await chrome.storage.local.get(TOMBSTONES_KEY);
+  return { note: {}, bookmark: {}, ...result[TOMBSTONES_KEY] };
+}
+
+export async function getTombstones(kind: TombstoneKind): Promise<Record<string, LocalTombstone>> {
+  return (await getStore())[kind];
+}
+
+export async function addTombstone(kind: TombstoneKind, url: string): Promise<void> {
+  const store = await getStore();
+  const cutoff = Date.now() - MAX_AGE_MS;
+  for (const [key, t] of Object.entries(store[kind])) {
+    if (t.deletedAt < cutoff) delete store[kind][key];
+  }
+  store[kind][url] = { deletedAt: Date.now(), synced: false };
+  await chrome.storage.local.set({ [TOMBSTONES_KEY]: store });
+}
+
+export async function markTombstoneSynced(kind: TombstoneKind, url: string): Promise<void> {
+  const store = await getStore();
+  if (!store[kind][url]) return;
+  store[kind][url].synced = true;
+  await chrome.storage.local.set({ [TOMBSTONES_KEY]: store });
+}
+
+export async function clearTombstone(kind: TombstoneKind, url: string): Promise<void> {
+  const store = await getStore();
+  if (!store[kind][url]) return;
+  delete store[kind][url];
+  await chrome.storage.local.set({ [TOMBSTONES_KEY]: store });
+}
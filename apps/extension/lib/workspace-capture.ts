@@ -0,0 +1,46 @@
+/**
+ * Snapshot open tabs as workspace content: tab-strip order, pinned state, tab groups
+ * (order and collapsed state) and which window each tab lives in. Needs the tabs and
+ * tabGroups APIs, so content scripts go through the background's `capture-workspace`.
+ */
+import type { WorkspaceTab, WorkspaceGroup } from './workspaces';
+
+export function isRestorableUrl(url: string | undefined): url is string {
+  return !!url && !url.startsWith('chrome://') && !url.startsWith('chrome-extension://') && !url.startsWith('about:');
+}
+
+/** Capture the given window(s), or every normal window when `windowIds` is omitted. */
+export async function captureWorkspace(windowIds?: number | number[]): Promise<{ tabs: WorkspaceTab[]; groups: WorkspaceGroup[] }> {
+  const windows = windowIds !== undefined
+    ? await Promise.all([windowIds].flat().map((id) => chrome.windows.get(id, { populate: true })))
+    : await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] });
+
+  const tabs: WorkspaceTab[] = [];
+  const groups: WorkspaceGroup[] = [];
+  let windowIndex = 0;
+
+  for (const win of windows) {
+    const winTabs = (win.tabs ?? []).filter((t) => isRestorableUrl(t.url)).sort((a, b) => a.index - b.index);
+    if (winTabs.length === 0) continue;
+
+    const winGroups = new Map((await chrome.tabGroups.query({ windowId: win.id })).map((g) => [g.id, g]));
+    const seenGroups = new Set<number>();
+    for (const t of winTabs) {
+      const group = t.groupId !== -1 ? winGroups.get(t.groupId) : undefined;
+      if (group && !seenGroups.has(group.id)) {
+        seenGroups.add(group.id);
+        groups.push({ title: group.title ?? '', color: group.color, collapsed: group.collapsed, windowIndex });
+      }
+      tabs.push({
+        title: t.title ?? '',
+        url: t.url!,
+        faviconUrl: t.favIconUrl ?? '',
+        ...(t.pinned ? { pinned: true } : {}),
+        windowIndex,
+        ...(group ? { groupTitle: group.title ?? '', groupColor: group.color } : {}),
+      });
+    }
+    windowIndex++;
+  }
+  return { tabs, groups };
+}
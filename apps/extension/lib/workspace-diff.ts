@@ -0,0 +1,56 @@
+/**
+ * Compare a saved workspace with the tabs that are open right now, so a restore can
+ * open only what's missing instead of duplicating everything.
+ */
+import type { WorkspaceTab } from './workspaces';
+
+export interface OpenTab {
+  tabId: number;
+  windowId: number;
+  url: string;
+  title: string;
+  faviconUrl: string;
+}
+
+export interface WorkspaceDiff {
+  alreadyOpen: { tab: WorkspaceTab; openTabId: number }[]; // open in any window
+  missing: WorkspaceTab[];
+  extra: OpenTab[]; // open in the target window but not part of the workspace
+}
+
+export type RestoreMode = 'missing' | 'replace' | 'new-window';
+
+/** Treat URLs that differ only by fragment or a trailing slash as the same page. */
+export function normalizeUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    return u.href.replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
+
+export function diffWorkspace(tabs: WorkspaceTab[], openTabs: OpenTab[], windowId: number): WorkspaceDiff {
+  // Prefer matches in the target window so "replace" can keep those tabs
+  const byUrl = new Map<string, OpenTab[]>();
+  for (const t of [...openTabs].sort((a, b) => Number(b.windowId === windowId) - Number(a.windowId === windowId))) {
+    const key = normalizeUrl(t.url);
+    byUrl.set(key, [...(byUrl.get(key) ?? []), t]);
+  }
+
+  const diff: WorkspaceDiff = { alreadyOpen: [], missing: [], extra: [] };
+  const matched = new Set<number>();
+  for (const tab of tabs) {
+    const candidates = byUrl.get(normalizeUrl(tab.url)) ?? [];
+    const open = candidates.find((t) => !matched.has(t.tabId));
+    if (open) {
+      matched.add(open.tabId);
+      diff.alreadyOpen.push({ tab, openTabId: open.tabId });
+    } else {
+      diff.missing.push(tab);
+    }
+  }
+  diff.extra = openTabs.filter((t) => t.windowId === windowId && !matched.has(t.tabId));
+  return diff;
+}
@@ -1,23 +1,62 @@
+import { sendOrQueue, cancelQueued } from './outbox';
+import { upsertWorkspace as upsertCloudWorkspace } from './api-client';
+import { dropWorkspaceSchedules } from './schedules';
+
+/** A saved tab. Tabs are kept in tab-strip order, window by window. */
+export interface WorkspaceTab {
+  title: string;
+  url: string;
+  faviconUrl: string;
+  groupTitle?: string;
+  groupColor?: string;
+  pinned?: boolean;
+  windowIndex?: number; // which saved window the tab came from; missing = 0
+}
+
+/** Group-level state. A tab belongs to the group with its windowIndex, title and color. */
+export interface WorkspaceGroup {
+  title: string;
+  color: string;
+  collapsed: boolean;
+  windowIndex: number;
+}
+
 export interface Workspace {
   id: string;
   name: string;
   createdAt: number;
-  tabs: { title: string; url: string; faviconUrl: string; groupTitle?: string; groupColor?: string }[];
+  updatedAt?: number; // missing on workspaces saved before cloud sync existed
+  tabs: WorkspaceTab[];
+  groups?: WorkspaceGroup[]; // in tab-strip order; missing on older workspaces
+}
+
+/** A workspace's earlier contents, kept whenever an update replaces them. */
+export interface WorkspaceVersion {
+  id: string;
+  name: string;
+  tabs: WorkspaceTab[];
+  groups?: WorkspaceGroup[];
+  savedAt: number; // when this content was replaced
 }
 
 const WORKSPACES_KEY = 'tabflow_workspaces';
+const VERSIONS_KEY = 'tabflow_workspace_versions';
+const MAX_VERSIONS = 20;
 
 export async function getWorkspaces(): Promise<Workspace[]> {
   const result = await chrome.storage.local.get(WORKSPACES_KEY);
   return result[WORKSPACES_KEY] || [];
 }
 
-export async function saveWorkspace(name: string, tabs: Workspace['tabs']): Promise<Workspace> {
+export async function saveWorkspace(name: string, tabs: WorkspaceTab[], groups?: WorkspaceGroup[]): Promise<Workspace> {
+  const now = Date.now();
   const workspace: Workspace = {
     id: crypto.randomUUID(),
     name,
-    createdAt: Date.now(),
+    createdAt: now,
+    updatedAt: now,
     tabs,
+    groups,
   };
 
   const workspaces = await getWorkspaces();
@@ -26,11 +65,19 @@ export async function saveWorkspace(name: string, tabs: Workspace['tabs']): Prom
   return workspace;
 }
 
-export async function updateWorkspace(id: string, tabs: Workspace['tabs']): Promise<Workspace | null> {
+/**
+ * Replace a workspace's tabs. Pass `recordVersion: false` for automatic saves (live
+ * workspaces) so they don't flood the version history.
+ */
+export async function updateWorkspace(
+  id: string, tabs: WorkspaceTab[], groups?: WorkspaceGroup[], { recordVersion = true } = {},
+): Promise<Workspace | null> {
   const workspaces = await getWorkspaces();
   const idx = workspaces.findIndex((w) => w.id === id);
   if (idx === -1) return null;
-  workspaces[idx] = { ...workspaces[idx], tabs, createdAt: Date.now() };
+  const previous = workspaces[idx];
+  workspaces[idx] = { ...previous, tabs, groups, updatedAt: Date.now() };
+  if (recordVersion) await recordVersions([[previous, workspaces[idx]]]);
   await chrome.storage.local.set({ [WORKSPACES_KEY]: workspaces });
   return workspaces[idx];
 }
@@ -39,4 +86,124 @@ export async function deleteWorkspace(id: string): Promise<void> {
   const workspaces = await getWorkspaces();
   const filtered = workspaces.filter((w) => w.id !== id);
   await chrome.storage.local.set({ [WORKSPACES_KEY]: filtered });
+  await dropVersions([id]);
+  await dropWorkspaceSchedules([id]);
+  sendOrQueue({ kind: 'workspace-delete', id }).catch(() => {});
+}
+
+/**
+ * Put a deleted workspace back under its original id, so live bindings and its version
+ * history keep pointing at it (schedules are restored separately). A delete still queued for it is dropped, and the
+ * server's tombstoned row is revived right away — otherwise the next sync would see the
+ * tombstone and report a conflict. If that fails, the sync pass pushes it later.
+ */
+export async function restoreDeletedWorkspace(workspace: Workspace, versions: WorkspaceVersion[] = []): Promise<void> {
+  await cancelQueued({ kind: 'workspace-delete', id: workspace.id });
+  const workspaces = await getWorkspaces();
+  if (workspaces.some((w) => w.id === workspace.id)) return;
+  const restored = { ...workspace, updatedAt: Date.now() };
+  workspaces.unshift(restored);
+  await chrome.storage.local.set({ [WORKSPACES_KEY]: workspaces });
+  const tabs = restored.tabs.map((t) => ({ ...t, faviconUrl: t.faviconUrl || undefined }));
+  upsertCloudWorkspace(restored.id, restored.name, tabs, restored.groups).catch(() => {});
+  if (versions.length > 0) {
+    const all = await getAllWorkspaceVersions();
+    all[workspace.id] = versions;
+    await chrome.storage.local.set({ [VERSIONS_KEY]: all });
+  }
+}
+
+type WorkspaceContent = {
+  name: string;
+  tabs: Omit<WorkspaceTab, 'faviconUrl'>[];
+  groups?: WorkspaceGroup[] | null;
+};
+
+/**
+ * Compares what a user would see change — not favicons, which churn on their own.
+ * Missing optional fields count as their defaults so older copies compare equal.
+ */
+export function sameWorkspaceContent(a: WorkspaceContent, b: WorkspaceContent): boolean {
+  if (a.name !== b.name || a.tabs.length !== b.tabs.length) return false;
+  const tabKey = (t: WorkspaceContent['tabs'][number]) =>
+    [t.url, t.title, !!t.pinned, t.windowIndex ?? 0, t.groupTitle ?? '', t.groupColor ?? ''].join('\u0000');
+  const groupsKey = (w: WorkspaceContent) =>
+    (w.groups ?? []).map((g) => [g.title, g.color, g.collapsed, g.windowIndex].join('\u0000')).join('\u0001');
+  return a.tabs.every((t, i) => tabKey(t) === tabKey(b.tabs[i])) && groupsKey(a) === groupsKey(b);
+}
+
+/** Last-modified time, falling back to createdAt for legacy entries. */
+export function workspaceUpdatedAt(ws: Workspace): number {
+  return ws.updatedAt ?? ws.createdAt;
+}
+
+/**
+ * Apply a batch of upserts and deletes on top of the latest stored list.
+ * Re-reads storage so edits made while a sync was in flight aren't clobbered.
+ */
+export async function applyWorkspaceChanges(upserts: Workspace[], deletes: string[]): Promise<Workspace[]> {
+  if (upserts.length === 0 && deletes.length === 0) return getWorkspaces();
+  const deleted = new Set(deletes);
+  const workspaces = (await getWorkspaces()).filter((w) => !deleted.has(w.id));
+  const replaced: [Workspace, Workspace][] = [];
+  for (const ws of upserts) {
+    const idx = workspaces.findIndex((w) => w.id === ws.id);
+    if (idx === -1) {
+      workspaces.unshift(ws);
+    } else {
+      replaced.push([workspaces[idx], ws]);
+      workspaces[idx] = { ...workspaces[idx], ...ws };
+    }
+  }
+  await recordVersions(replaced);
+  await dropVersions(deletes);
+  await dropWorkspaceSchedules(deletes);
+  await chrome.storage.local.set({ [WORKSPACES_KEY]: workspaces });
+  return workspaces;
+}
+
+// ---- Version history ----
+
+/** Every workspace's version history, by workspace id. */
+export async function getAllWorkspaceVersions(): Promise<Record<string, WorkspaceVersion[]>> {
+  const result = await chrome.storage.local.get(VERSIONS_KEY);
+  return result[VERSIONS_KEY] || {};
+}
+
+/** Newest first. */
+export async function getWorkspaceVersions(id: string): Promise<WorkspaceVersion[]> {
+  return (await getAllWorkspaceVersions())[id] ?? [];
+}
+
+/** Keep the `before` side of each (before, after) pair whose content actually changed. */
+async function recordVersions(pairs: [Workspace, Workspace][]): Promise<void> {
+  const changed = pairs.filter(([before, after]) => !sameWorkspaceContent(before, after));
+  if (changed.length === 0) return;
+  const all = await getAllWorkspaceVersions();
+  for (const [before] of changed) {
+    const version: WorkspaceVersion = {
+      id: crypto.randomUUID(), name: before.name, tabs: before.tabs, groups: before.groups, savedAt: Date.now(),
+    };
+    all[before.id] = [version, ...(all[before.id] ?? [])].slice(0, MAX_VERSIONS);
+  }
+  await chrome.storage.local.set({ [VERSIONS_KEY]: all });
+}
+
+async function dropVersions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const all = await getAllWorkspaceVersions();
+  for (const id of ids) delete all[id];
+  await chrome.storage.local.set({ [VERSIONS_KEY]: all });
+}
+
+/** Bring back an earlier version. The content it replaces becomes a version itself. */
+export async function restoreWorkspaceVersion(id: string, version: Pick<WorkspaceVersion, 'name' | 'tabs' | 'groups'>): Promise<Workspace | null> {
+  const workspaces = await getWorkspaces();
+  const idx = workspaces.findIndex((w) => w.id === id);
+  if (idx === -1) return null;
+  const previous = workspaces[idx];
+  workspaces[idx] = { ...previous, name: version.name, tabs: version.tabs, groups: version.groups, updatedAt: Date.now() };
+  await recordVersions([[previous, workspaces[idx]]]);
+  await chrome.storage.local.set({ [WORKSPACES_KEY]: workspaces });
+  return workspaces[idx];
 }
@@ -1,12 +1,17 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'wxt';
 
 export default defineConfig({
   modules: ['@wxt-dev/module-react'],
+  alias: {
+    // Plain TS shared with the API (e.g. the AI agent's prompt), so both stay in step
+    '@shared': fileURLToPath(new URL('../api/src/shared', import.meta.url)),
+  },
   manifest: {
     name: 'TabFlow',
     description: 'Alt+Tab style tab switching with fuzzy search',
     version: '0.1.0',
-    permissions: ['tabs', 'activeTab', 'storage', 'favicon', 'sessions', 'tabGroups', 'alarms', 'identity', 'bookmarks'],
+    permissions: ['tabs', 'activeTab', 'storage', 'favicon', 'sessions', 'tabGroups', 'alarms', 'identity', 'bookmarks', 'history', 'idle'],
     host_permissions: ['<all_urls>'],
     web_accessible_resources: [
       { resources: ['TabFlowV2.png', 'TabFlowV3.png'], matches: ['<all_urls>'] },